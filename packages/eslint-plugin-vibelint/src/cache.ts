@@ -0,0 +1,177 @@
+import { readFileSync, statSync } from "fs"
+import { dirname, join } from "path"
+
+import { isValidDate } from "./dates.js"
+import {
+  migrateLegacyFingerprints,
+  type ApprovedWarning,
+  type LegacyFingerprint,
+  type WarningFingerprint
+} from "./fingerprint.js"
+
+const LEGACY_CACHE_VERSION = "1.1"
+
+export interface CachedApproval extends ApprovedWarning {
+  author?: string
+  reason?: string
+  expiresAt?: number
+}
+
+export interface CacheFile {
+  // Keyed by file path relative to the cache file's directory
+  approvedByFile: Map<string, CachedApproval[]>
+}
+
+const EMPTY_CACHE: CacheFile = { approvedByFile: new Map() }
+
+const loadedCaches = new Map<string, { version: string; cache: CacheFile }>()
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function isLegacyFingerprint(value: unknown): value is LegacyFingerprint {
+  return (
+    isRecord(value) &&
+    typeof value.file === "string" &&
+    typeof value.ruleId === "string" &&
+    typeof value.codeHash === "string" &&
+    typeof value.message === "string"
+  )
+}
+
+// Caches written before severity was recorded don't have it
+interface StoredFingerprint extends Omit<WarningFingerprint, "severity"> {
+  severity?: number
+}
+
+function isWarningFingerprint(value: unknown): value is StoredFingerprint {
+  return (
+    isRecord(value) &&
+    isLegacyFingerprint(value) &&
+    typeof value.contextHash === "string" &&
+    typeof value.scope === "string"
+  )
+}
+
+// Epoch ms, or undefined for approvals that never expire
+function parseExpiry(value: Record<string, unknown>): number | undefined {
+  return isValidDate(value.expiresAt) ? Date.parse(value.expiresAt) : undefined
+}
+
+// Caches written before occurrence counting have no `count`, those approved a single instance.
+function toApprovedWarning(value: unknown): CachedApproval[] {
+  if (!isWarningFingerprint(value) || !isRecord(value)) {
+    return []
+  }
+  // The wizard refuses to load a cache with an unparseable date, don't suppress anything on its behalf either
+  if (
+    (value.expiresAt !== undefined && !isValidDate(value.expiresAt)) ||
+    (value.approvedAt !== undefined && !isValidDate(value.approvedAt))
+  ) {
+    return []
+  }
+  const count = typeof value.count === "number" && value.count > 0 ? value.count : 1
+  // Approvals from before severity was recorded covered errors and warnings alike
+  const severity = value.severity === 1 ? 1 : 2
+  return [
+    {
+      file: value.file,
+      ruleId: value.ruleId,
+      codeHash: value.codeHash,
+      contextHash: value.contextHash,
+      scope: value.scope,
+      message: value.message,
+      severity,
+      count,
+      author: typeof value.author === "string" ? value.author : undefined,
+      reason: typeof value.reason === "string" ? value.reason : undefined,
+      expiresAt: parseExpiry(value)
+    }
+  ]
+}
+
+export function readSourceLines(filePath: string): string[] | null {
+  try {
+    return readFileSync(filePath, "utf-8").split("\n")
+  } catch {
+    return null
+  }
+}
+
+function indexByFile(approvals: CachedApproval[]): CacheFile {
+  const approvedByFile = new Map<string, CachedApproval[]>()
+  for (const approved of approvals) {
+    const forFile = approvedByFile.get(approved.file)
+    if (forFile) {
+      forFile.push(approved)
+    } else {
+      approvedByFile.set(approved.file, [approved])
+    }
+  }
+  return { approvedByFile }
+}
+
+// `cache.groupByFile` caches key approvals by file instead of repeating it in each of them
+function flattenGroupedApprovals(byFile: Record<string, unknown>): unknown[] {
+  return Object.entries(byFile).flatMap(([file, approvals]) =>
+    Array.isArray(approvals)
+      ? approvals.map((approval: unknown) => (isRecord(approval) ? { ...approval, file } : approval))
+      : []
+  )
+}
+
+function readCacheFile(cacheFile: string): CacheFile {
+  try {
+    const content = readFileSync(cacheFile, "utf-8")
+    const parsed: unknown = JSON.parse(content)
+    if (isRecord(parsed) && isRecord(parsed.approvedWarnings) && !Array.isArray(parsed.approvedWarnings)) {
+      return indexByFile(flattenGroupedApprovals(parsed.approvedWarnings).flatMap(toApprovedWarning))
+    }
+    if (!isRecord(parsed) || !Array.isArray(parsed.approvedWarnings)) {
+      return EMPTY_CACHE
+    }
+
+    // v1.1 caches only stored a line hash, migrate them in memory (the wizard rewrites the file)
+    if (parsed.version === LEGACY_CACHE_VERSION) {
+      const legacy = parsed.approvedWarnings.filter(isLegacyFingerprint)
+      return indexByFile(migrateLegacyFingerprints(legacy, (file) => readSourceLines(join(dirname(cacheFile), file))))
+    }
+
+    return indexByFile(parsed.approvedWarnings.flatMap(toApprovedWarning))
+  } catch {
+    return EMPTY_CACHE
+  }
+}
+
+/**
+ * Parsed caches stay in memory for the life of the process (hello, editor ESLint servers)
+ * and are only re-read when the file's mtime or size changes.
+ */
+export function loadCache(cacheFile: string): CacheFile {
+  let version: string
+  try {
+    const stats = statSync(cacheFile)
+    version = `${stats.mtimeMs}:${stats.size}`
+  } catch {
+    loadedCaches.delete(cacheFile)
+    return EMPTY_CACHE
+  }
+
+  const loaded = loadedCaches.get(cacheFile)
+  if (loaded?.version === version) {
+    return loaded.cache
+  }
+  const cache = readCacheFile(cacheFile)
+  loadedCaches.set(cacheFile, { version, cache })
+  return cache
+}
+
+/**
+ * Approvals for one file. Expired approvals don't suppress anything, so they are left out.
+ */
+export function getApprovalsForFile(cache: CacheFile, file: string, now: number = Date.now()): CachedApproval[] {
+  return (cache.approvedByFile.get(file) ?? []).filter(
+    (approved) => approved.expiresAt === undefined || approved.expiresAt > now
+  )
+}
@@ -0,0 +1,10 @@
+// NOTE: this file is mirrored in packages/vibelint-wizard/src/dates.ts.
+// The plugin and the wizard MUST accept the same approval dates, so change both or neither.
+
+/**
+ * Whether a date in the cache is usable: anything `Date.parse` understands, so an offset
+ * or a hand-edited "2027-06-30" doesn't get a whole cache thrown out.
+ */
+export function isValidDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value))
+}
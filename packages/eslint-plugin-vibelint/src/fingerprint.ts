@@ -0,0 +1,304 @@
+// NOTE: this file is mirrored in packages/vibelint-wizard/src/fingerprint.ts.
+// The plugin and the wizard MUST compute identical fingerprints, so change both or neither.
+import { createHash } from "crypto"
+import { relative } from "path"
+
+// How many non-blank lines above and below the offending line are hashed into the context
+const CONTEXT_RADIUS = 2
+
+const IDENTIFIER = "[A-Za-z_$][\\w$]*"
+
+// Keywords that look like `name(...) {` but never name a scope
+const NON_SCOPE_KEYWORDS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "with",
+  "return",
+  "function",
+  "else",
+  "do"
+])
+
+const SCOPE_PATTERNS: RegExp[] = [
+  new RegExp(`\\b(?:class|interface|namespace|enum)\\s+(${IDENTIFIER})`),
+  new RegExp(`\\bfunction\\s*\\*?\\s*(${IDENTIFIER})`),
+  new RegExp(
+    `\\b(${IDENTIFIER})\\s*(?::[^=]+)?[:=]\\s*(?:async\\s+)?(?:function\\b|\\([^)]*\\)[^=]*=>|${IDENTIFIER}\\s*=>)`
+  ),
+  new RegExp(
+    `^\\s*(?:(?:public|private|protected|static|async|get|set|override|readonly)\\s+)*\\*?\\s*(${IDENTIFIER})\\s*(?:<[^>]*>)?\\s*\\(`
+  )
+]
+
+export interface WarningFingerprint {
+  file: string
+  ruleId: string
+  codeHash: string
+  contextHash: string
+  scope: string
+  message: string
+  // 1 = warning, 2 = error. An approval only covers issues up to the severity it was approved at.
+  severity: number
+}
+
+/**
+ * A cached approval. `count` is how many instances of this exact fingerprint were reviewed,
+ * so a second copy of an approved line shows up as a new issue instead of riding along.
+ */
+export interface ApprovedWarning extends WarningFingerprint {
+  count: number
+}
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex")
+}
+
+/**
+ * Collapse all whitespace so re-indenting or re-spacing a line keeps its fingerprint
+ */
+export function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, " ")
+}
+
+export function computeCodeHash(lineContent: string): string {
+  return sha256(normalizeLine(lineContent))
+}
+
+/**
+ * The v1.1 cache format hashed the trimmed line only. Used to migrate old approvals.
+ */
+export function computeLegacyCodeHash(lineContent: string): string {
+  return sha256(lineContent.trim())
+}
+
+/**
+ * Hash the offending line together with up to CONTEXT_RADIUS non-blank lines around it,
+ * so two identical lines in one file get different fingerprints.
+ */
+export function computeContextHash(lines: string[], lineIndex: number): string {
+  const before: string[] = []
+  for (let i = lineIndex - 1; i >= 0 && before.length < CONTEXT_RADIUS; i--) {
+    const normalized = normalizeLine(lines[i])
+    if (normalized) before.unshift(normalized)
+  }
+
+  const after: string[] = []
+  for (let i = lineIndex + 1; i < lines.length && after.length < CONTEXT_RADIUS; i++) {
+    const normalized = normalizeLine(lines[i])
+    if (normalized) after.push(normalized)
+  }
+
+  return sha256([...before, normalizeLine(lines[lineIndex] ?? ""), ...after].join("\n"))
+}
+
+function stripStringsAndComments(line: string): string {
+  return line
+    .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+    .replace(/\/\/.*$/, "")
+    .replace(/\/\*.*?\*\//g, "")
+}
+
+function matchScopeName(line: string): string | null {
+  for (const pattern of SCOPE_PATTERNS) {
+    const match = pattern.exec(line)
+    if (match && !NON_SCOPE_KEYWORDS.has(match[1])) {
+      return match[1]
+    }
+  }
+  return null
+}
+
+/**
+ * Best-effort name of the function/class enclosing a line, e.g. "UserService.save".
+ * Walks upwards counting braces, so it works without a parser for any curly-brace language.
+ * Returns "" for top-level code.
+ */
+export function findEnclosingScope(lines: string[], lineIndex: number): string {
+  const names: string[] = []
+  let depth = 0
+
+  for (let i = lineIndex - 1; i >= 0; i--) {
+    const line = stripStringsAndComments(lines[i])
+    let opensScope = false
+
+    for (let j = line.length - 1; j >= 0; j--) {
+      if (line[j] === "}") {
+        depth++
+      } else if (line[j] === "{") {
+        if (depth === 0) {
+          opensScope = true
+        } else {
+          depth--
+        }
+      }
+    }
+
+    if (opensScope) {
+      const name = matchScopeName(line)
+      if (name) names.unshift(name)
+    }
+  }
+
+  return names.join(".")
+}
+
+export function toRelativePath(filePath: string, baseDir: string): string {
+  return relative(baseDir, filePath).replace(/\\/g, "/")
+}
+
+/**
+ * `file` is the path relative to the directory of the cache file the fingerprint goes into
+ */
+export function createFingerprint(
+  file: string,
+  ruleId: string | null,
+  message: string,
+  lines: string[],
+  lineNumber: number,
+  severity: number
+): WarningFingerprint {
+  const lineIndex = lineNumber - 1
+  return {
+    file,
+    ruleId: ruleId || "unknown",
+    codeHash: computeCodeHash(lines[lineIndex] ?? ""),
+    contextHash: computeContextHash(lines, lineIndex),
+    scope: findEnclosingScope(lines, lineIndex),
+    message,
+    severity
+  }
+}
+
+/**
+ * Same issue in the same place. Severity is ignored, see `coversSeverity`.
+ */
+export function fingerprintMatches(fp1: WarningFingerprint, fp2: WarningFingerprint): boolean {
+  return (
+    fp1.file === fp2.file &&
+    fp1.ruleId === fp2.ruleId &&
+    fp1.message === fp2.message &&
+    fp1.codeHash === fp2.codeHash &&
+    fp1.contextHash === fp2.contextHash &&
+    fp1.scope === fp2.scope
+  )
+}
+
+export function fingerprintKey(fp: WarningFingerprint): string {
+  return [fp.file, fp.ruleId, fp.message, fp.codeHash, fp.contextHash, fp.scope, fp.severity].join("\0")
+}
+
+/**
+ * An approved warning doesn't cover the same issue once a config change escalates it to an error
+ */
+function coversSeverity(approved: WarningFingerprint, current: WarningFingerprint): boolean {
+  return approved.severity >= current.severity
+}
+
+function sameWarning(fp1: WarningFingerprint, fp2: WarningFingerprint): boolean {
+  return fp1.file === fp2.file && fp1.ruleId === fp2.ruleId && fp1.message === fp2.message
+}
+
+/**
+ * Group fingerprints into approvals, counting identical ones
+ */
+export function countFingerprints(fingerprints: WarningFingerprint[]): ApprovedWarning[] {
+  const counted = new Map<string, ApprovedWarning>()
+  for (const fingerprint of fingerprints) {
+    const key = fingerprintKey(fingerprint)
+    const existing = counted.get(key)
+    if (existing) {
+      existing.count++
+    } else {
+      counted.set(key, { ...fingerprint, count: 1 })
+    }
+  }
+  return [...counted.values()]
+}
+
+/**
+ * Pair current warnings with approvals. Returns, for every current fingerprint, the approval it
+ * matched (or undefined). Every approval is used at most `count` times, and never for an issue
+ * more severe than it was approved at.
+ *
+ * Pass 1 is an exact match. The fuzzy passes re-attach approvals for code that just moved:
+ * - same line in the same function/class, but the surrounding lines changed
+ * - same line with the same surroundings, but the function/class was renamed
+ */
+export function matchFingerprints<T extends ApprovedWarning>(
+  approved: T[],
+  current: WarningFingerprint[]
+): Array<T | undefined> {
+  const matches: Array<T | undefined> = current.map(() => undefined)
+  const remaining = approved.map((a) => a.count)
+
+  const passes: Array<(a: WarningFingerprint, c: WarningFingerprint) => boolean> = [
+    (a, c) => fingerprintMatches(a, c),
+    (a, c) => sameWarning(a, c) && a.codeHash === c.codeHash && a.scope === c.scope,
+    (a, c) => sameWarning(a, c) && a.codeHash === c.codeHash && a.contextHash === c.contextHash
+  ]
+
+  for (const pass of passes) {
+    current.forEach((fingerprint, currentIndex) => {
+      if (matches[currentIndex]) return
+      const approvedIndex = approved.findIndex(
+        (candidate, idx) => remaining[idx] > 0 && coversSeverity(candidate, fingerprint) && pass(candidate, fingerprint)
+      )
+      if (approvedIndex >= 0) {
+        remaining[approvedIndex]--
+        matches[currentIndex] = approved[approvedIndex]
+      }
+    })
+  }
+
+  return matches
+}
+
+export interface LegacyFingerprint {
+  file: string
+  ruleId: string
+  codeHash: string
+  message: string
+}
+
+/**
+ * Turn v1.1 approvals (trimmed-line hash only) into full fingerprints by finding the matching
+ * lines in the current source. A v1.1 approval covered every identical line in the file, so
+ * each matching line gets counted. Approvals whose line no longer exists are dropped.
+ */
+export function migrateLegacyFingerprints(
+  legacy: LegacyFingerprint[],
+  readLines: (file: string) => string[] | null
+): ApprovedWarning[] {
+  const migrated: WarningFingerprint[] = []
+  const linesByFile = new Map<string, string[] | null>()
+  const uniqueLegacy = new Map(
+    legacy.map((entry) => [[entry.file, entry.ruleId, entry.message, entry.codeHash].join("\0"), entry])
+  )
+
+  for (const entry of uniqueLegacy.values()) {
+    if (!linesByFile.has(entry.file)) {
+      linesByFile.set(entry.file, readLines(entry.file))
+    }
+    const lines = linesByFile.get(entry.file)
+    if (!lines) continue
+
+    lines.forEach((line, lineIndex) => {
+      if (computeLegacyCodeHash(line) !== entry.codeHash) return
+      migrated.push({
+        file: entry.file,
+        ruleId: entry.ruleId,
+        codeHash: computeCodeHash(line),
+        contextHash: computeContextHash(lines, lineIndex),
+        scope: findEnclosingScope(lines, lineIndex),
+        message: entry.message,
+        // v1.1 didn't record severity, assume the approval covered errors too
+        severity: 2
+      })
+    })
+  }
+
+  return countFingerprints(migrated)
+}
@@ -1,252 +1,80 @@
-import { createHash } from "crypto"
-import { existsSync, readFileSync } from "fs"
-import { join, relative } from "path"
+import { createApprovalProcessor, type Processor } from "./processor.js"
+import { rules, type Rule } from "./rules/index.js"
 
-const CACHE_FILE = join(process.cwd(), ".eslint-warnings-cache.json")
+export { createApprovalProcessor, type LintMessage, type Processor } from "./processor.js"
+export type { RulePolicy, VibelintPolicy } from "./policy.js"
+export { rules, type Rule } from "./rules/index.js"
 
-interface WarningFingerprint {
-  file: string
-  ruleId: string
-  codeHash: string
-  message: string
-}
+// Every script extension ESLint lints out of the box. For .vue, .svelte, .astro or Markdown,
+// wrap that plugin's processor with createApprovalProcessor.
+const SCRIPT_FILES = ["**/*.{js,mjs,cjs,jsx,ts,mts,cts,tsx}"]
 
-interface CacheFile {
-  approvedWarnings: WarningFingerprint[]
-}
+// Same thing for .eslintrc, where globs without a slash match the file name anywhere
+const LEGACY_SCRIPT_FILES = ["*.js", "*.mjs", "*.cjs", "*.jsx", "*.ts", "*.mts", "*.cts", "*.tsx"]
 
-function computeCodeHash(lineContent: string): string {
-  const trimmed = lineContent.trim()
-  return createHash("sha256").update(trimmed).digest("hex")
-}
+// How .eslintrc refers to us: "@vibelint/vibelint" resolves to @vibelint/eslint-plugin-vibelint
+const LEGACY_PLUGIN_NAME = "@vibelint/vibelint"
 
-function createFingerprint(
-  filePath: string,
-  ruleId: string | null,
-  message: string,
-  lineContent: string
-): WarningFingerprint {
-  const relativePath = relative(process.cwd(), filePath).replace(/\\/g, "/")
-  const codeHash = computeCodeHash(lineContent)
-  return {
-    file: relativePath,
-    ruleId: ruleId || "unknown",
-    codeHash,
-    message
-  }
-}
+const approvalProcessor = createApprovalProcessor()
 
-function fingerprintMatches(fp1: WarningFingerprint, fp2: WarningFingerprint): boolean {
-  return (
-    fp1.file === fp2.file && fp1.ruleId === fp2.ruleId && fp1.codeHash === fp2.codeHash && fp1.message === fp2.message
-  )
+// Warnings, not errors: they're meant to go through the wizard like everything else
+function strictRules(pluginName: string): Record<string, "warn"> {
+  return Object.fromEntries(Object.keys(rules).map((name) => [`${pluginName}/${name}`, "warn"]))
 }
 
-function loadCache(): CacheFile {
-  try {
-    if (!existsSync(CACHE_FILE)) {
-      return { approvedWarnings: [] }
-    }
-    const content = readFileSync(CACHE_FILE, "utf-8")
-    const parsed = JSON.parse(content)
-    const warnings = parsed.approvedWarnings || []
-    return {
-      approvedWarnings: warnings
-    }
-  } catch {
-    return { approvedWarnings: [] }
-  }
+// The plugin's parts are named exports too: .eslintrc loads plugins with require(), which hands over
+// an ES module's named exports and leaves the default export alone
+export const meta = {
+  name: "@vibelint/eslint-plugin-vibelint",
+  version: "0.1.0"
 }
 
-function readSourceLine(filePath: string, lineNumber: number): string {
-  try {
-    const content = readFileSync(filePath, "utf-8")
-    const lines = content.split("\n")
-    if (lineNumber > 0 && lineNumber <= lines.length) {
-      return lines[lineNumber - 1]
-    }
-    return ""
-  } catch {
-    return ""
-  }
+export const processors: Record<string, Processor> = {
+  approvals: approvalProcessor,
+  // Per-extension names from before there was one processor for everything, legacy configs use them
+  js: approvalProcessor,
+  ts: approvalProcessor,
+  tsx: approvalProcessor,
+  jsx: approvalProcessor
 }
 
-function filterApprovedMessages(
-  messages: Array<{
-    ruleId?: string | null
-    severity?: number
-    message?: string
-    line?: number
-    source?: string
-  }>,
-  filename: string
-): Array<{
-  ruleId?: string | null
-  severity?: number
-  message?: string
-  line?: number
-  source?: string
-}> {
-  const cache = loadCache()
-
-  if (cache.approvedWarnings.length === 0) {
-    return messages
-  }
-
-  if (!filename || !messages || messages.length === 0) {
-    return messages
-  }
-
-  const filtered = messages.filter((message) => {
-    // Filter both warnings (severity 1) and errors (severity 2)
-    if (!message || (message.severity !== 1 && message.severity !== 2)) {
-      return true
-    }
-
-    try {
-      const lineContent = message.source || readSourceLine(filename, message.line || 0)
-      const fingerprint = createFingerprint(filename, message.ruleId || null, message.message || "", lineContent)
-
-      // Check if this warning or error is approved
-      const isApproved = cache.approvedWarnings.some((approved) => fingerprintMatches(approved, fingerprint))
-
-      // Return false to suppress approved warnings and errors
-      return !isApproved
-    } catch {
-      // If there's an error filtering, keep the message
-      return true
-    }
-  })
-
-  return filtered
+interface VibelintConfigs {
+  recommended: unknown[]
+  "legacy-recommended": Record<string, unknown>
+  strict: unknown[]
+  "legacy-strict": Record<string, unknown>
 }
 
 // ESLint 9 flat config plugin
 const vibelintPlugin: {
   meta: { name: string; version: string }
-  processors: Record<string, unknown>
-  configs?: Record<string, unknown[]>
-} = {
-  meta: {
-    name: "@vibelint/eslint-plugin-vibelint",
-    version: "0.1.0"
+  processors: Record<string, Processor>
+  rules: Record<string, Rule>
+  configs?: VibelintConfigs
+} = { meta, processors, rules }
+
+const recommended = {
+  files: SCRIPT_FILES,
+  plugins: {
+    "suppress-approved": vibelintPlugin
   },
-  processors: {
-    js: {
-      postprocess(
-        messages: Array<
-          Array<{
-            ruleId?: string | null
-            severity?: number
-            message?: string
-            line?: number
-            source?: string
-          }>
-        >,
-        filename?: string
-      ) {
-        if (!messages) return []
-        // Flatten if messages is an array of arrays
-        const flatMessages = messages.flat()
-        return filterApprovedMessages(flatMessages, filename || "")
-      },
-      supportsAutofix: false
-    },
-    ts: {
-      postprocess(
-        messages: Array<
-          Array<{
-            ruleId?: string | null
-            severity?: number
-            message?: string
-            line?: number
-            source?: string
-          }>
-        >,
-        filename?: string
-      ) {
-        if (!messages) return []
-        // Flatten if messages is an array of arrays
-        const flatMessages = messages.flat()
-        return filterApprovedMessages(flatMessages, filename || "")
-      },
-      supportsAutofix: false
-    },
-    tsx: {
-      postprocess(
-        messages: Array<
-          Array<{
-            ruleId?: string | null
-            severity?: number
-            message?: string
-            line?: number
-            source?: string
-          }>
-        >,
-        filename?: string
-      ) {
-        if (!messages) return []
-        // Flatten if messages is an array of arrays
-        const flatMessages = messages.flat()
-        return filterApprovedMessages(flatMessages, filename || "")
-      },
-      supportsAutofix: false
-    },
-    jsx: {
-      postprocess(
-        messages: Array<
-          Array<{
-            ruleId?: string | null
-            severity?: number
-            message?: string
-            line?: number
-            source?: string
-          }>
-        >,
-        filename?: string
-      ) {
-        if (!messages) return []
-        // Flatten if messages is an array of arrays
-        const flatMessages = messages.flat()
-        return filterApprovedMessages(flatMessages, filename || "")
-      },
-      supportsAutofix: false
-    }
-  }
+  processor: "suppress-approved/approvals"
+}
+
+// `"extends": ["plugin:@vibelint/vibelint/legacy-recommended"]` in .eslintrc
+const legacyRecommended = {
+  plugins: [LEGACY_PLUGIN_NAME],
+  overrides: [{ files: LEGACY_SCRIPT_FILES, processor: `${LEGACY_PLUGIN_NAME}/approvals` }]
 }
 
-// Add configs after the plugin is defined to avoid circular reference
-vibelintPlugin.configs = {
-  recommended: [
-    {
-      files: ["**/*.js"],
-      plugins: {
-        "suppress-approved": vibelintPlugin
-      },
-      processor: "suppress-approved/js"
-    },
-    {
-      files: ["**/*.ts"],
-      plugins: {
-        "suppress-approved": vibelintPlugin
-      },
-      processor: "suppress-approved/ts"
-    },
-    {
-      files: ["**/*.jsx"],
-      plugins: {
-        "suppress-approved": vibelintPlugin
-      },
-      processor: "suppress-approved/jsx"
-    },
-    {
-      files: ["**/*.tsx"],
-      plugins: {
-        "suppress-approved": vibelintPlugin
-      },
-      processor: "suppress-approved/tsx"
-    }
-  ]
+// Add configs after the plugin is defined to avoid circular reference.
+// `recommended` only suppresses approved warnings, our own rules are opt-in through `strict`.
+export const configs: VibelintConfigs = {
+  recommended: [recommended],
+  "legacy-recommended": legacyRecommended,
+  strict: [{ ...recommended, rules: strictRules("suppress-approved") }],
+  "legacy-strict": { ...legacyRecommended, rules: strictRules(LEGACY_PLUGIN_NAME) }
 }
+vibelintPlugin.configs = configs
 
 export default vibelintPlugin
@@ -0,0 +1,74 @@
+// NOTE: this file is mirrored in packages/vibelint-wizard/src/location.ts.
+// The plugin and the wizard MUST look for approvals in the same place, so change both or neither.
+import { existsSync, readFileSync } from "fs"
+import { dirname, join, resolve } from "path"
+
+import type { VibelintPolicy } from "./policy.js"
+
+export const CACHE_FILE_NAME = ".eslint-warnings-cache.json"
+
+// Path to the one cache file to use, beats everything in vibelint.config
+export const CACHE_FILE_ENV = "VIBELINT_CACHE_FILE"
+
+/**
+ * Nearest directory from `startDir` upwards (including itself) that satisfies `predicate`
+ */
+export function findUp(startDir: string, predicate: (dir: string) => boolean): string | null {
+  let dir = resolve(startDir)
+  for (;;) {
+    if (predicate(dir)) return dir
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+}
+
+function hasWorkspacesField(dir: string): boolean {
+  try {
+    const pkg: unknown = JSON.parse(readFileSync(join(dir, "package.json"), "utf-8"))
+    return typeof pkg === "object" && pkg !== null && "workspaces" in pkg
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Repository or monorepo root: a git checkout, a pnpm workspace or a yarn/npm workspaces root
+ */
+export function isWorkspaceRoot(dir: string): boolean {
+  return existsSync(join(dir, ".git")) || existsSync(join(dir, "pnpm-workspace.yaml")) || hasWorkspacesField(dir)
+}
+
+/**
+ * Where vibelint runs from: the nearest directory with a cache file, or the nearest workspace root.
+ * Falls back to `startDir` when there is neither.
+ */
+export function findProjectRoot(startDir: string): string {
+  return findUp(startDir, (dir) => existsSync(join(dir, CACHE_FILE_NAME)) || isWorkspaceRoot(dir)) ?? resolve(startDir)
+}
+
+/**
+ * Nearest directory with a package.json between `filePath` and `rootDir`, or `rootDir` itself
+ */
+export function findPackageDir(filePath: string, rootDir: string): string {
+  const root = resolve(rootDir)
+  return findUp(dirname(resolve(filePath)), (dir) => dir === root || existsSync(join(dir, "package.json"))) ?? root
+}
+
+/**
+ * The single cache file for the whole project, or null when every workspace package keeps its own
+ */
+export function resolveSharedCacheFile(rootDir: string, policy: VibelintPolicy): string | null {
+  const fromEnv = process.env[CACHE_FILE_ENV]
+  if (fromEnv) return resolve(fromEnv)
+  if (policy.cache.file) return resolve(policy.dir, policy.cache.file)
+  if (policy.cache.perPackage) return null
+  return join(resolve(rootDir), CACHE_FILE_NAME)
+}
+
+/**
+ * The cache file holding approvals for `filePath`. File paths in a cache are relative to its directory.
+ */
+export function resolveCacheFile(filePath: string, rootDir: string, policy: VibelintPolicy): string {
+  return resolveSharedCacheFile(rootDir, policy) ?? join(findPackageDir(filePath, rootDir), CACHE_FILE_NAME)
+}
@@ -0,0 +1,72 @@
+import { statSync } from "fs"
+import { dirname, join } from "path"
+
+import { CACHE_FILE_ENV, findProjectRoot, resolveCacheFile } from "./location.js"
+import { loadPolicy, POLICY_FILES, type VibelintPolicy } from "./policy.js"
+
+export interface CacheLookup {
+  policy: VibelintPolicy
+  cacheFile: string
+}
+
+interface MemoizedLookup {
+  lookup: CacheLookup
+  cacheFileEnv: string | undefined
+  // mtime of every path the lookup depends on, null for paths that didn't exist
+  mtimes: Map<string, number | null>
+}
+
+const lookups = new Map<string, MemoizedLookup>()
+
+function mtimeOf(path: string): number | null {
+  try {
+    return statSync(path).mtimeMs
+  } catch {
+    return null
+  }
+}
+
+function ancestors(dir: string): string[] {
+  const dirs = [dir]
+  for (let parent = dirname(dir); parent !== dirs[dirs.length - 1]; parent = dirname(parent)) {
+    dirs.push(parent)
+  }
+  return dirs
+}
+
+/**
+ * What the lookup read: every directory up to the filesystem root (files appearing or disappearing change
+ * their mtime), the package.json files in them (`workspaces`) and the policy file
+ */
+function dependencies(dir: string, policy: VibelintPolicy): string[] {
+  const dirs = ancestors(dir)
+  return [
+    ...dirs,
+    ...dirs.map((ancestor) => join(ancestor, "package.json")),
+    ...POLICY_FILES.map((name) => join(policy.dir, name))
+  ]
+}
+
+/**
+ * Policy and cache file for a linted file. Walking up the tree and parsing package.json and vibelint.config
+ * for every linted file adds up, so lookups are kept per directory and only redone when something they
+ * depend on changes on disk (a few stats instead of reads and parses).
+ */
+export function lookupCacheFile(filename: string): CacheLookup {
+  const dir = dirname(filename)
+  const cacheFileEnv = process.env[CACHE_FILE_ENV]
+  const memoized = lookups.get(dir)
+  if (
+    memoized &&
+    memoized.cacheFileEnv === cacheFileEnv &&
+    [...memoized.mtimes].every(([path, mtime]) => mtimeOf(path) === mtime)
+  ) {
+    return memoized.lookup
+  }
+
+  const policy = loadPolicy(dir)
+  const lookup = { policy, cacheFile: resolveCacheFile(filename, findProjectRoot(dir), policy) }
+  const mtimes = new Map(dependencies(dir, policy).map((path) => [path, mtimeOf(path)]))
+  lookups.set(dir, { lookup, cacheFileEnv, mtimes })
+  return lookup
+}
@@ -0,0 +1,133 @@
+import { dirname } from "path"
+
+import { getApprovalsForFile, loadCache, readSourceLines, type CachedApproval } from "./cache.js"
+import { createFingerprint, matchFingerprints, toRelativePath } from "./fingerprint.js"
+import { lookupCacheFile } from "./lookup.js"
+import { resolveRulePolicy } from "./policy.js"
+import { getDeferredRules } from "./suppressions.js"
+
+/**
+ * The parts of an ESLint lint message we care about
+ */
+export interface LintMessage {
+  ruleId?: string | null
+  severity?: number
+  message?: string
+  line?: number
+  source?: string
+  suppressions?: Array<{ kind: string; justification: string }>
+}
+
+/**
+ * An ESLint processor, e.g. `vue.processors.vue` or `markdown.processors.markdown`
+ */
+export interface Processor {
+  meta?: { name?: string; version?: string }
+  preprocess?(text: string, filename: string): Array<string | { text: string; filename: string }>
+  postprocess?(messages: LintMessage[][], filename: string): LintMessage[]
+  supportsAutofix?: boolean
+}
+
+// Every suppression we add starts with this, the wizard relies on it to tell ours from eslint-disable comments
+const JUSTIFICATION_PREFIX = "vibelint:"
+const AUTO_APPROVED_JUSTIFICATION = `${JUSTIFICATION_PREFIX} auto-approved by vibelint.config`
+
+// The text ESLint actually linted (unsaved editor buffers included), captured in preprocess so
+// postprocess fingerprints that instead of whatever is on disk
+const lintedSources = new Map<string, string[]>()
+
+function approvalJustification(approved: CachedApproval, cacheFile: string): string {
+  const by = approved.author ? ` by ${approved.author}` : ""
+  const reason = approved.reason ? `: ${approved.reason}` : ""
+  return `${JUSTIFICATION_PREFIX} approved in ${toRelativePath(cacheFile, process.cwd())}${by}${reason}`
+}
+
+/**
+ * Mark approved messages as suppressed, with the reason why. ESLint moves them to `suppressedMessages`,
+ * so formatters and editors still know they exist.
+ */
+function suppressApprovedMessages(messages: LintMessage[], filename: string): LintMessage[] {
+  const lintedLines = lintedSources.get(filename)
+  lintedSources.delete(filename)
+
+  if (!filename || !messages || messages.length === 0) {
+    return messages
+  }
+
+  // Look for the cache from the linted file, not the cwd, which is anyone's guess in an editor
+  const { policy, cacheFile } = lookupCacheFile(filename)
+  const cache = loadCache(cacheFile)
+  const relativePath = toRelativePath(filename, dirname(cacheFile))
+
+  // Both warnings (severity 1) and errors (severity 2), unless an eslint-disable comment beat us to it.
+  // Errors in eslint-suppressions.json are ESLint's business when we defer to it.
+  const deferredRules = getDeferredRules(policy, filename)
+  const candidates = messages.filter(
+    (message) =>
+      message &&
+      (message.severity === 1 || message.severity === 2) &&
+      !message.suppressions &&
+      !(message.severity === 2 && deferredRules.has(message.ruleId || ""))
+  )
+  const justifications = new Map<LintMessage, string>()
+  for (const message of candidates) {
+    if (resolveRulePolicy(policy, message.ruleId || "unknown", filename, message.severity || 1) === "auto-approve") {
+      justifications.set(message, AUTO_APPROVED_JUSTIFICATION)
+    }
+  }
+
+  // Forbidden rules stay visible even if somebody hand-edits an approval into the cache
+  const approvedForFile = getApprovalsForFile(cache, relativePath).filter(
+    (approved) => resolveRulePolicy(policy, approved.ruleId, filename, approved.severity) !== "forbidden"
+  )
+  // No approvals for this file, or we can't read it: only the policy gets a say
+  const lines = approvedForFile.length > 0 ? (lintedLines ?? readSourceLines(filename)) : null
+
+  if (lines) {
+    const reviewable = candidates.filter((message) => !justifications.has(message))
+    const fingerprints = reviewable.map((message) =>
+      createFingerprint(
+        relativePath,
+        message.ruleId || null,
+        message.message || "",
+        lines,
+        message.line || 0,
+        message.severity || 1
+      )
+    )
+
+    // Check which warnings and errors are approved, including ones whose code just moved.
+    // A warning approved before a config change escalated it to an error shows up again.
+    matchFingerprints(approvedForFile, fingerprints).forEach((approved, idx) => {
+      if (approved) {
+        justifications.set(reviewable[idx], approvalJustification(approved, cacheFile))
+      }
+    })
+  }
+
+  return messages.map((message) => {
+    const justification = justifications.get(message)
+    return justification ? { ...message, suppressions: [{ kind: "external", justification }] } : message
+  })
+}
+
+/**
+ * A processor that suppresses approved messages. Pass another processor to wrap it instead of replacing it:
+ * the wrapped processor extracts and maps back its code blocks, approvals are matched against the
+ * original file afterwards, so they work the same as for plain script files.
+ */
+export function createApprovalProcessor(wrapped?: Processor): Processor {
+  return {
+    meta: { name: wrapped?.meta?.name ? `vibelint(${wrapped.meta.name})` : "vibelint" },
+    preprocess(text, filename) {
+      lintedSources.set(filename, text.split("\n"))
+      return wrapped?.preprocess ? wrapped.preprocess(text, filename) : [text]
+    },
+    postprocess(messages, filename) {
+      if (!messages) return []
+      const mapped = wrapped?.postprocess ? wrapped.postprocess(messages, filename) : messages.flat()
+      return suppressApprovedMessages(mapped, filename || "")
+    },
+    supportsAutofix: wrapped?.supportsAutofix ?? false
+  }
+}
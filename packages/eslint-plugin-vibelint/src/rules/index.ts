@@ -0,0 +1,12 @@
+import { noStaleApprovals } from "./no-stale-approvals.js"
+import { noUnapprovedDisable } from "./no-unapproved-disable.js"
+import { noUnparsedTypeAssertion } from "./no-unparsed-type-assertion.js"
+import type { Rule } from "./types.js"
+
+export type { Rule } from "./types.js"
+
+export const rules: Record<string, Rule> = {
+  "no-unapproved-disable": noUnapprovedDisable,
+  "no-unparsed-type-assertion": noUnparsedTypeAssertion,
+  "no-stale-approvals": noStaleApprovals
+}
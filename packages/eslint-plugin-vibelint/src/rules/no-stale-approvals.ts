@@ -0,0 +1,49 @@
+import { dirname } from "path"
+
+import { getApprovalsForFile, loadCache } from "../cache.js"
+import { computeCodeHash, toRelativePath } from "../fingerprint.js"
+import { lookupCacheFile } from "../lookup.js"
+import { FILE_START, type Rule } from "./types.js"
+
+/**
+ * Reports approvals for the linted file whose line no longer exists anywhere in it.
+ * Moved code is fine, the processor re-finds it by hash.
+ */
+export const noStaleApprovals: Rule = {
+  meta: {
+    type: "suggestion",
+    docs: { description: "Report approvals in the vibelint cache for code that no longer exists" },
+    messages: {
+      stale:
+        'Stale approval in {{cacheFile}}: {{ruleId}} "{{message}}" doesn\'t match any code in this file anymore. Run `vibelint-wizard prune`.'
+    },
+    schema: []
+  },
+  create(context) {
+    return {
+      Program() {
+        // Code blocks extracted by another processor are only part of the file, everything would look stale
+        if (context.filename !== context.physicalFilename) return
+
+        const filename = context.physicalFilename
+        const { cacheFile } = lookupCacheFile(filename)
+        const approvals = getApprovalsForFile(loadCache(cacheFile), toRelativePath(filename, dirname(cacheFile)))
+        if (approvals.length === 0) return
+
+        const codeHashes = new Set(context.sourceCode.lines.map(computeCodeHash))
+        for (const approved of approvals) {
+          if (codeHashes.has(approved.codeHash)) continue
+          context.report({
+            loc: FILE_START,
+            messageId: "stale",
+            data: {
+              cacheFile: toRelativePath(cacheFile, process.cwd()),
+              ruleId: approved.ruleId,
+              message: approved.message
+            }
+          })
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import type { Rule } from "./types.js"
+
+const DISABLE_DIRECTIVE = /^\s*(eslint-disable(?:-next-line|-line)?)(?:\s+([\s\S]*?))?(?:\s+--[\s\S]*)?\s*$/
+
+/**
+ * Reports every eslint-disable comment. The report is an issue like any other, so the processor
+ * suppresses it once the comment is approved in the cache: an approval is what links the comment to a human.
+ */
+export const noUnapprovedDisable: Rule = {
+  meta: {
+    type: "problem",
+    docs: { description: "Disallow eslint-disable comments nobody approved in the vibelint cache" },
+    messages: {
+      unapproved:
+        "{{directive}} for {{rules}} without an approval. FIX THE CODE instead of hiding it, or get the comment approved with vibelint-wizard."
+    },
+    schema: []
+  },
+  create(context) {
+    return {
+      Program() {
+        for (const comment of context.sourceCode.getAllComments()) {
+          const match = DISABLE_DIRECTIVE.exec(comment.value)
+          if (!match || !comment.loc) continue
+          context.report({
+            loc: comment.loc,
+            messageId: "unapproved",
+            data: { directive: match[1], rules: match[2]?.trim() || "every rule" }
+          })
+        }
+      }
+    }
+  }
+}
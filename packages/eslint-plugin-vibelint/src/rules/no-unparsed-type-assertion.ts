@@ -0,0 +1,94 @@
+import { isAstNode, type AstNode, type Rule } from "./types.js"
+
+// Asserting what Zod just validated is narrowing, not lying
+const PARSE_METHODS = new Set(["parse", "parseAsync"])
+const SAFE_PARSE_METHODS = new Set(["safeParse", "safeParseAsync"])
+
+function unwrap(node: unknown): unknown {
+  return isAstNode(node) && (node.type === "AwaitExpression" || node.type === "ChainExpression")
+    ? unwrap(node.type === "AwaitExpression" ? node.argument : node.expression)
+    : node
+}
+
+const SCHEMA_NAME = /schema$/i
+
+// Root of `a.b().c`: the `a`
+function rootIdentifier(node: unknown): unknown {
+  if (!isAstNode(node)) return node
+  if (node.type === "CallExpression") return rootIdentifier(node.callee)
+  if (node.type === "MemberExpression") return rootIdentifier(node.object)
+  return node
+}
+
+/**
+ * Whether the receiver of `.parse()` looks like a Zod schema: named like one (`userSchema`, `schemas.userSchema`)
+ * or built inline (`z.string().parse(x)`). Keeps `Date.parse`, `path.parse`, `JSON.parse` and friends out.
+ */
+function isSchema(node: unknown): boolean {
+  if (!isAstNode(node)) return false
+  if (node.type === "Identifier") return typeof node.name === "string" && SCHEMA_NAME.test(node.name)
+  if (node.type === "MemberExpression") {
+    return isAstNode(node.property) && typeof node.property.name === "string" && SCHEMA_NAME.test(node.property.name)
+  }
+  if (node.type === "CallExpression") {
+    const root = rootIdentifier(node)
+    return isAstNode(root) && root.type === "Identifier" && root.name === "z"
+  }
+  return false
+}
+
+function isMethodCall(node: unknown, methods: Set<string>): boolean {
+  const call = unwrap(node)
+  if (!isAstNode(call) || call.type !== "CallExpression" || !isAstNode(call.callee)) return false
+  const callee = call.callee
+  return (
+    callee.type === "MemberExpression" &&
+    isSchema(callee.object) &&
+    isAstNode(callee.property) &&
+    typeof callee.property.name === "string" &&
+    methods.has(callee.property.name)
+  )
+}
+
+// `userSchema.parse(x)`, `await userSchema.parseAsync(x)` or `userSchema.safeParse(x).data`
+function isZodParseResult(node: unknown): boolean {
+  const expression = unwrap(node)
+  if (isMethodCall(expression, PARSE_METHODS)) return true
+  return (
+    isAstNode(expression) &&
+    expression.type === "MemberExpression" &&
+    isAstNode(expression.property) &&
+    expression.property.name === "data" &&
+    isMethodCall(expression.object, SAFE_PARSE_METHODS)
+  )
+}
+
+// `as const` doesn't assert anything
+function isConstAssertion(node: AstNode): boolean {
+  const annotation = node.typeAnnotation
+  return (
+    isAstNode(annotation) &&
+    annotation.type === "TSTypeReference" &&
+    isAstNode(annotation.typeName) &&
+    annotation.typeName.name === "const"
+  )
+}
+
+export const noUnparsedTypeAssertion: Rule = {
+  meta: {
+    type: "problem",
+    docs: { description: "Disallow type assertions except on Zod parse results" },
+    messages: {
+      assertion:
+        "NEVER use type assertions on data you didn't validate. Parse it with Zod or fix the source type definition. Asserting a Zod parse result is fine."
+    },
+    schema: []
+  },
+  create(context) {
+    function check(node: AstNode): void {
+      if (!node.loc || isConstAssertion(node) || isZodParseResult(node.expression)) return
+      context.report({ loc: node.loc, messageId: "assertion" })
+    }
+    return { TSAsExpression: check, TSTypeAssertion: check }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * The parts of ESLint's rule API we use. Structural, so the plugin doesn't need ESLint's types to build.
+ */
+export interface SourceLocation {
+  start: { line: number; column: number }
+  end: { line: number; column: number }
+}
+
+export interface AstNode {
+  type: string
+  loc?: SourceLocation | null
+  [key: string]: unknown
+}
+
+export interface Comment {
+  type: string
+  value: string
+  loc?: SourceLocation | null
+}
+
+export interface RuleContext {
+  filename: string
+  physicalFilename: string
+  sourceCode: {
+    lines: string[]
+    getAllComments(): Comment[]
+  }
+  report(descriptor: { loc: SourceLocation; messageId: string; data?: Record<string, string> }): void
+}
+
+export interface Rule {
+  meta: {
+    type: "problem" | "suggestion"
+    docs: { description: string }
+    messages: Record<string, string>
+    schema: []
+  }
+  create(context: RuleContext): Record<string, (node: AstNode) => void>
+}
+
+export function isAstNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && "type" in value && typeof value.type === "string"
+}
+
+// Where to report something about the whole file
+export const FILE_START: SourceLocation = { start: { line: 1, column: 0 }, end: { line: 1, column: 0 } }
@@ -0,0 +1,56 @@
+import { readFileSync, statSync } from "fs"
+import { join } from "path"
+
+import { toRelativePath } from "./fingerprint.js"
+import type { VibelintPolicy } from "./policy.js"
+
+// ESLint's eslint-suppressions.json, reduced to what we need: file (relative to vibelint.config) → suppressed rules
+type EslintSuppressions = Map<string, Set<string>>
+
+const loadedSuppressions = new Map<string, { version: string; suppressions: EslintSuppressions }>()
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function readSuppressionsFile(suppressionsFile: string): EslintSuppressions {
+  const suppressions: EslintSuppressions = new Map()
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(suppressionsFile, "utf-8"))
+    if (!isRecord(parsed)) return suppressions
+    for (const [file, rules] of Object.entries(parsed)) {
+      if (isRecord(rules)) {
+        suppressions.set(file, new Set(Object.keys(rules)))
+      }
+    }
+  } catch {
+    // No file or garbage in it: nothing to defer to
+  }
+  return suppressions
+}
+
+/**
+ * Rules ESLint's own bulk suppressions cover for `filePath`, when vibelint.config says to defer to them.
+ * Re-read only when the suppressions file changes, like the cache.
+ */
+export function getDeferredRules(policy: VibelintPolicy, filePath: string): Set<string> {
+  if (!policy.eslintSuppressions.defer) {
+    return new Set()
+  }
+
+  const suppressionsFile = join(policy.dir, policy.eslintSuppressions.file)
+  let version: string
+  try {
+    const stats = statSync(suppressionsFile)
+    version = `${stats.mtimeMs}:${stats.size}`
+  } catch {
+    return new Set()
+  }
+
+  let loaded = loadedSuppressions.get(suppressionsFile)
+  if (loaded?.version !== version) {
+    loaded = { version, suppressions: readSuppressionsFile(suppressionsFile) }
+    loadedSuppressions.set(suppressionsFile, loaded)
+  }
+  return loaded.suppressions.get(toRelativePath(filePath, policy.dir)) ?? new Set()
+}
@@ -18,6 +18,9 @@ type PackageManager = "npm" | "pnpm" | "yarn"
 type ESLintConfigFormat = "flat" | "legacy" | "none"
 type ToolSelection = "commit-only" | "lint-only" | "both"
 
+const MERGE_DRIVER_COMMAND = "npx --no-install vibelint-wizard merge-driver %O %A %B %P"
+const MERGE_DRIVER_ATTRIBUTE = ".eslint-warnings-cache.json merge=vibelint"
+
 interface PackageJson {
   scripts?: Record<string, string>
   devDependencies?: Record<string, string>
@@ -139,6 +142,41 @@ function installPackage(packageManager: PackageManager, packageName: string): bo
   return result.status === 0
 }
 
+function runGit(args: string[]): boolean {
+  return spawnSync("git", args, { stdio: "ignore", windowsHide: true }).status === 0
+}
+
+function installMergeDriver(): boolean {
+  if (!runGit(["rev-parse", "--git-dir"])) {
+    console.log(kleur.yellow("Not a git repository, skipping the merge driver."))
+    return false
+  }
+
+  // Per clone, git doesn't let a repository configure merge drivers for you
+  if (
+    !runGit(["config", "merge.vibelint.name", "vibelint approval cache merge"]) ||
+    !runGit(["config", "merge.vibelint.driver", MERGE_DRIVER_COMMAND])
+  ) {
+    console.error(kleur.red("Failed to register the merge driver with git config"))
+    return false
+  }
+
+  try {
+    const attributesPath = join(process.cwd(), ".gitattributes")
+    const attributes = existsSync(attributesPath) ? readFileSync(attributesPath, "utf-8") : ""
+    if (!attributes.split("\n").some((line) => line.trim() === MERGE_DRIVER_ATTRIBUTE)) {
+      const separator = attributes && !attributes.endsWith("\n") ? "\n" : ""
+      writeFileSync(attributesPath, `${attributes}${separator}${MERGE_DRIVER_ATTRIBUTE}\n`, "utf-8")
+    }
+    return true
+  } catch (error) {
+    console.error(
+      kleur.red(`Failed to write .gitattributes: ${error instanceof Error ? error.message : "unknown error"}`)
+    )
+    return false
+  }
+}
+
 function showESLintPluginInstructions(configFormat: ESLintConfigFormat): void {
   console.log(`\n${kleur.cyan().bold("=".repeat(80))}`)
   console.log(kleur.cyan().bold("ESLint Plugin Setup Instructions"))
@@ -169,27 +207,10 @@ function showESLintPluginInstructions(configFormat: ESLintConfigFormat): void {
     console.log(kleur.white("2. Add to your .eslintrc.json:"))
     console.log(
       kleur.gray(`   {
-    "plugins": ["@vibelint/vibelint"],
-    "overrides": [
-      {
-        "files": ["*.js"],
-        "processor": "@vibelint/vibelint/js"
-      },
-      {
-        "files": ["*.ts"],
-        "processor": "@vibelint/vibelint/ts"
-      },
-      {
-        "files": ["*.jsx"],
-        "processor": "@vibelint/vibelint/jsx"
-      },
-      {
-        "files": ["*.tsx"],
-        "processor": "@vibelint/vibelint/tsx"
-      }
-    ]
+    "extends": ["plugin:@vibelint/vibelint/legacy-recommended"]
    }`)
     )
+    console.log(kleur.dim("\n   Legacy configs load the plugin with require(), which needs Node 20.19+ or 22.12+."))
   }
 
   console.log(`\n${kleur.yellow().bold("Important:")}`)
@@ -289,6 +310,28 @@ async function main() {
     installPlugin = pluginChoice === true
   }
 
+  // Ask about the merge driver if lint wizard is selected
+  let installDriver = false
+  if (selection === "lint-only" || selection === "both") {
+    const { driverChoice } = await prompts(
+      {
+        type: "confirm",
+        name: "driverChoice",
+        message: "Set up a git merge driver for .eslint-warnings-cache.json (no more merge conflicts in it)?",
+        initial: true,
+        stdin: process.stdin,
+        stdout: process.stdout
+      },
+      {
+        onCancel: () => {
+          console.log("\nCancelled by user. Exiting.")
+          process.exit(1)
+        }
+      }
+    )
+    installDriver = driverChoice === true
+  }
+
   // Read package.json first
   const initialPkg = readPackageJson()
 
@@ -346,6 +389,15 @@ async function main() {
 
   console.log()
 
+  let driverInstalled = false
+  if (installDriver) {
+    console.log(kleur.blue("Setting up the merge driver...\n"))
+    driverInstalled = installMergeDriver()
+    if (driverInstalled) {
+      console.log(kleur.green("✓ Added merge driver for .eslint-warnings-cache.json\n"))
+    }
+  }
+
   // Show ESLint plugin instructions if plugin was installed
   if (installPlugin) {
     showESLintPluginInstructions(eslintConfigFormat)
@@ -370,10 +422,16 @@ async function main() {
     console.log(kleur.dim(`  ${packageManager === "pnpm" ? "pnpm" : "npm"} run commit-wizard`))
   }
 
-  if (installPlugin && eslintConfigFormat !== "none") {
+  if ((installPlugin && eslintConfigFormat !== "none") || driverInstalled) {
     console.log(`\n${kleur.yellow("Next steps:")}`)
+  }
+  if (installPlugin && eslintConfigFormat !== "none") {
     console.log(kleur.dim("  - Configure the ESLint plugin using the instructions above"))
   }
+  if (driverInstalled) {
+    console.log(kleur.dim("  - Commit .gitattributes"))
+    console.log(kleur.dim(`  - Everyone else runs: git config merge.vibelint.driver "${MERGE_DRIVER_COMMAND}"`))
+  }
 
   console.log()
 }
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import {
+  parseApprovalsForCounting,
+  parseCacheFile,
+  serializeCache,
+  type CachedApproval,
+  type StoredCacheFile
+} from "./cache.js"
+
+function approval(file: string, ruleId: string, metadata: Partial<CachedApproval> = {}): CachedApproval {
+  return {
+    file,
+    ruleId,
+    message: "Nope.",
+    codeHash: "abc",
+    contextHash: "def",
+    scope: "load",
+    severity: 1,
+    count: 1,
+    ...metadata
+  }
+}
+
+function cacheWith(approvals: CachedApproval[]): StoredCacheFile {
+  return { version: "2.6", eslintConfigHash: "config", approvedWarnings: approvals }
+}
+
+describe("serializeCache", () => {
+  const approvals = [
+    approval("src/b.js", "eqeqeq"),
+    approval("src/a.js", "no-console"),
+    approval("src/a.js", "eqeqeq", { codeHash: "xyz" }),
+    approval("src/a.js", "eqeqeq")
+  ]
+
+  it("writes the same file whatever order the approvals came in", () => {
+    assert.equal(serializeCache(cacheWith(approvals)), serializeCache(cacheWith([...approvals].reverse())))
+  })
+
+  it("sorts approvals by file, rule and code hash", () => {
+    const written = parseCacheFile(serializeCache(cacheWith(approvals))).approvedWarnings
+
+    assert.deepEqual(
+      written.map(({ file, ruleId, codeHash }) => [file, ruleId, codeHash]),
+      [
+        ["src/a.js", "eqeqeq", "abc"],
+        ["src/a.js", "eqeqeq", "xyz"],
+        ["src/a.js", "no-console", "abc"],
+        ["src/b.js", "eqeqeq", "abc"]
+      ]
+    )
+  })
+
+  it("writes the fields in the same order whichever code path built the approval", () => {
+    const { reason, author, ...fingerprint } = approval("src/a.js", "eqeqeq", {
+      reason: "legacy",
+      author: "someone@example.com"
+    })
+    const written = JSON.parse(serializeCache(cacheWith([{ reason, author, ...fingerprint }])))
+
+    assert.deepEqual(Object.keys(written.approvedWarnings[0]), [
+      "file",
+      "ruleId",
+      "message",
+      "codeHash",
+      "contextHash",
+      "scope",
+      "severity",
+      "count",
+      "author",
+      "reason"
+    ])
+  })
+
+  it("groups approvals by file and reads them back the same", () => {
+    const written = serializeCache(cacheWith(approvals), true)
+
+    assert.deepEqual(Object.keys(JSON.parse(written).approvedWarnings), ["src/a.js", "src/b.js"])
+    assert.equal(serializeCache(parseCacheFile(written)), serializeCache(cacheWith(approvals)))
+  })
+})
+
+describe("parseApprovalsForCounting", () => {
+  it("counts v1.1 approvals once each, severity unknown", () => {
+    const legacy = {
+      version: "1.1",
+      eslintConfigHash: "config",
+      approvedWarnings: [{ file: "src/a.js", ruleId: "eqeqeq", codeHash: "abc", message: "Nope." }]
+    }
+
+    const [counted] = parseApprovalsForCounting(JSON.stringify(legacy))
+    assert.equal(counted.count, 1)
+    assert.equal(counted.severity, undefined)
+  })
+
+  it("leaves the severity unknown on caches from before 2.4", () => {
+    const { severity: _severity, ...unrecorded } = approval("src/a.js", "eqeqeq")
+    const content = (version: string) =>
+      JSON.stringify({ version, eslintConfigHash: "config", approvedWarnings: [unrecorded] })
+
+    assert.equal(parseApprovalsForCounting(content("2.3"))[0].severity, undefined)
+    assert.equal(parseApprovalsForCounting(content("2.4"))[0].severity, 2)
+  })
+})
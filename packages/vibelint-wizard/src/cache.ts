@@ -0,0 +1,448 @@
+import { readdir, readFile, rename, writeFile } from "fs/promises"
+import { dirname, join, relative, resolve } from "path"
+
+import kleur from "kleur"
+import { z } from "zod"
+
+import { eslintConfigSnapshotSchema, type EslintConfig, type EslintConfigSnapshot } from "./config.js"
+import { isValidDate } from "./dates.js"
+import {
+  fingerprintKey,
+  migrateLegacyFingerprints,
+  toRelativePath,
+  type ApprovedWarning,
+  type WarningFingerprint
+} from "./fingerprint.js"
+import { CACHE_FILE_NAME, resolveCacheFile, resolveSharedCacheFile } from "./location.js"
+import { loadPolicy } from "./policy.js"
+
+const CACHE_VERSION = "2.6"
+// Versions that load as-is: 2.0 lacks `count` (defaults to 1), 2.0 and 2.1 lack approval metadata,
+// nothing before 2.3 expires, nothing before 2.4 records severity (defaults to error, covering both),
+// nothing before 2.5 records the resolved ESLint config (their hash is of the config files' text),
+// nothing before 2.6 groups approvals per file
+const COMPATIBLE_CACHE_VERSIONS = ["2.0", "2.1", "2.2", "2.3", "2.4", "2.5", CACHE_VERSION]
+const LEGACY_CACHE_VERSION = "1.1"
+const VERSIONS_WITHOUT_SEVERITY = ["2.0", "2.1", "2.2", "2.3"]
+
+/**
+ * Who approved a warning, when and why, and until when. Missing on approvals made before v2.2,
+ * approvals without `expiresAt` are forever.
+ */
+export interface ApprovalMetadata {
+  author?: string
+  approvedAt?: string
+  reason?: string
+  expiresAt?: string
+}
+
+export type CachedApproval = ApprovedWarning & ApprovalMetadata
+
+export interface CacheFile {
+  version: string
+  eslintConfigHash: string
+  // The resolved config behind `eslintConfigHash`, to show what changed when it does. Missing when that hash
+  // comes from a cache that never recorded the config (before v2.5, or migrated from v1.1).
+  eslintConfig?: EslintConfigSnapshot
+  approvedWarnings: CachedApproval[]
+}
+
+// Straight from disk, file paths relative to the cache file
+export type StoredCacheFile = CacheFile
+
+/**
+ * An approval as far as counting goes: v1.1 and pre-2.4 approvals never said whether they approved an error
+ * or a warning
+ */
+export type CountedApproval = Omit<CachedApproval, "severity"> & { severity?: number }
+
+// Zod schemas for runtime validation
+const dateSchema = z.string().refine(isValidDate, { message: "Not a date anybody can parse" })
+
+const warningFingerprintSchema = z.object({
+  file: z.string(),
+  ruleId: z.string(),
+  codeHash: z.string(),
+  contextHash: z.string(),
+  scope: z.string(),
+  message: z.string(),
+  severity: z.union([z.literal(1), z.literal(2)]).default(2),
+  count: z.number().int().positive().default(1),
+  author: z.string().optional(),
+  approvedAt: dateSchema.optional(),
+  reason: z.string().optional(),
+  expiresAt: dateSchema.optional()
+})
+
+// `cache.groupByFile` writes approvals keyed by file, flattened again on load
+const groupedApprovalsSchema = z
+  .record(z.string(), z.array(warningFingerprintSchema.omit({ file: true })))
+  .transform((byFile) =>
+    Object.entries(byFile).flatMap(([file, approvals]) => approvals.map((approval) => ({ file, ...approval })))
+  )
+
+const cacheFileSchema = z.object({
+  version: z.string(),
+  eslintConfigHash: z.string(),
+  eslintConfig: eslintConfigSnapshotSchema.optional(),
+  approvedWarnings: z.union([z.array(warningFingerprintSchema), groupedApprovalsSchema])
+})
+
+// v1.1: fingerprints only hashed the trimmed offending line
+const legacyWarningFingerprintSchema = z.object({
+  file: z.string(),
+  ruleId: z.string(),
+  codeHash: z.string(),
+  message: z.string()
+})
+
+const legacyCacheFileSchema = z.object({
+  version: z.literal(LEGACY_CACHE_VERSION),
+  eslintConfigHash: z.string(),
+  approvedWarnings: z.array(legacyWarningFingerprintSchema)
+})
+
+async function migrateLegacyCache(
+  legacy: z.infer<typeof legacyCacheFileSchema>,
+  currentConfigHash: string,
+  baseDir: string
+): Promise<StoredCacheFile> {
+  const sources = new Map<string, string[] | null>()
+  for (const file of new Set(legacy.approvedWarnings.map((w) => w.file))) {
+    try {
+      const content = await readFile(join(baseDir, file), "utf-8")
+      sources.set(file, content.split("\n"))
+    } catch {
+      sources.set(file, null)
+    }
+  }
+
+  const approvedWarnings = migrateLegacyFingerprints(legacy.approvedWarnings, (file) => sources.get(file) ?? null)
+  if (legacy.approvedWarnings.length > 0) {
+    // stderr, so machine-readable output on stdout stays clean
+    console.warn(
+      kleur.dim(
+        `Migrated ${legacy.approvedWarnings.length} approval(s) from cache v${LEGACY_CACHE_VERSION} to v${CACHE_VERSION} (${approvedWarnings.length} fingerprint(s) after matching them against your current code).`
+      )
+    )
+  }
+  return {
+    version: CACHE_VERSION,
+    eslintConfigHash: legacy.eslintConfigHash || currentConfigHash,
+    approvedWarnings
+  }
+}
+
+function emptyCache(currentConfig: EslintConfig): CacheFile {
+  return {
+    version: CACHE_VERSION,
+    eslintConfigHash: currentConfig.hash,
+    eslintConfig: currentConfig.snapshot,
+    approvedWarnings: []
+  }
+}
+
+function describeParseError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join(", ")
+  }
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * A missing cache file is an empty one. One that exists but doesn't parse is fatal: starting fresh
+ * would mean the next save overwrites every approval in it.
+ */
+async function loadCacheFile(cacheFile: string, currentConfig: EslintConfig): Promise<StoredCacheFile> {
+  let content: string
+  try {
+    content = await readFile(cacheFile, "utf-8")
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return emptyCache(currentConfig)
+    }
+    throw error
+  }
+
+  const where = relative(process.cwd(), cacheFile) || cacheFile
+  let parsed: z.infer<typeof cacheFileSchema>
+  try {
+    const raw: unknown = JSON.parse(content)
+    const legacy = legacyCacheFileSchema.safeParse(raw)
+    if (legacy.success) {
+      return await migrateLegacyCache(legacy.data, currentConfig.hash, dirname(cacheFile))
+    }
+    parsed = cacheFileSchema.parse(raw)
+  } catch (error) {
+    throw new Error(
+      `${where} is broken (${describeParseError(error)}). Fix it by hand or restore it from git, I'm not overwriting your approvals with nothing.`
+    )
+  }
+  if (!COMPATIBLE_CACHE_VERSIONS.includes(parsed.version)) {
+    throw new Error(
+      `${where} is cache v${parsed.version}, from a different era. Upgrade vibelint-wizard, I'm not a time traveler.`
+    )
+  }
+  if (!parsed.eslintConfigHash) {
+    parsed.eslintConfigHash = currentConfig.hash
+  }
+  return { ...parsed, version: CACHE_VERSION, eslintConfigHash: parsed.eslintConfigHash }
+}
+
+/**
+ * Every per-package cache file under `rootDir`, skipping node_modules and hidden directories
+ */
+async function findCacheFiles(rootDir: string): Promise<string[]> {
+  const found: string[] = []
+  const entries = await readdir(rootDir, { withFileTypes: true })
+  for (const entry of entries) {
+    if (entry.isFile() && entry.name === CACHE_FILE_NAME) {
+      found.push(join(rootDir, entry.name))
+    } else if (entry.isDirectory() && entry.name !== "node_modules" && !entry.name.startsWith(".")) {
+      found.push(...(await findCacheFiles(join(rootDir, entry.name))))
+    }
+  }
+  return found
+}
+
+/**
+ * Cache files the approvals are currently spread over: the shared one, or every per-package one
+ */
+export async function currentCacheFiles(): Promise<string[]> {
+  const shared = resolveSharedCacheFile(process.cwd(), loadPolicy())
+  return shared ? [shared] : await findCacheFiles(process.cwd())
+}
+
+/**
+ * A cache file's approvals with their file paths relative to the project root (the cwd) instead of the cache file
+ */
+export function toProjectApprovals<T extends { file: string }>(approvals: T[], cacheFile: string): T[] {
+  const baseDir = dirname(cacheFile)
+  return approvals.map((approved) => ({
+    ...approved,
+    file: toRelativePath(join(baseDir, approved.file), process.cwd())
+  }))
+}
+
+/**
+ * Load the approvals from every cache file. In memory, approved file paths are relative to
+ * the project root (the cwd), no matter which cache file they came from.
+ */
+export async function loadCache(currentConfig: EslintConfig): Promise<CacheFile> {
+  const caches = await Promise.all(
+    (await currentCacheFiles()).map(async (cacheFile) => {
+      const cache = await loadCacheFile(cacheFile, currentConfig)
+      return { ...cache, approvedWarnings: toProjectApprovals(cache.approvedWarnings, cacheFile) }
+    })
+  )
+  if (caches.some((cache) => !cache.eslintConfig)) {
+    console.warn(
+      kleur.dim(
+        "Your cache only remembers a hash of your ESLint config files. Recording the resolved config from now on, so the next change comes with a diff."
+      )
+    )
+  }
+  // One stale cache is enough to ask about the config change. Preferably one we can show a diff for.
+  const stale =
+    caches.find((cache) => cache.eslintConfig && cache.eslintConfigHash !== currentConfig.hash) ??
+    caches.find((cache) => cache.eslintConfigHash !== currentConfig.hash)
+  return {
+    version: CACHE_VERSION,
+    eslintConfigHash: stale?.eslintConfigHash ?? currentConfig.hash,
+    eslintConfig: stale ? stale.eslintConfig : currentConfig.snapshot,
+    approvedWarnings: caches.flatMap((cache) => cache.approvedWarnings)
+  }
+}
+
+export function pickApprovalMetadata(approval: ApprovalMetadata): ApprovalMetadata {
+  const { author, approvedAt, reason, expiresAt } = approval
+  return { author, approvedAt, reason, expiresAt }
+}
+
+export function isExpired(approval: ApprovalMetadata, now: number = Date.now()): boolean {
+  return approval.expiresAt !== undefined && Date.parse(approval.expiresAt) <= now
+}
+
+/**
+ * Add `count` instances of a fingerprint. More instances of an existing approval keep the
+ * metadata of whoever approved it first.
+ */
+export function addApproval(
+  approvals: CachedApproval[],
+  approval: WarningFingerprint & ApprovalMetadata,
+  count: number = 1
+): void {
+  const key = fingerprintKey(approval)
+  const existing = approvals.find((approved) => fingerprintKey(approved) === key)
+  if (existing) {
+    existing.count += count
+  } else {
+    approvals.push({
+      file: approval.file,
+      ruleId: approval.ruleId,
+      codeHash: approval.codeHash,
+      contextHash: approval.contextHash,
+      scope: approval.scope,
+      message: approval.message,
+      severity: approval.severity,
+      count,
+      ...pickApprovalMetadata(approval)
+    })
+  }
+}
+
+/**
+ * Take back `count` instances of an approval, the whole approval once none are left
+ */
+export function removeApproval(approvals: CachedApproval[], approval: CachedApproval, count: number = 1): void {
+  if (approval.count > count) {
+    approval.count -= count
+    return
+  }
+  const idx = approvals.indexOf(approval)
+  if (idx >= 0) {
+    approvals.splice(idx, 1)
+  }
+}
+
+export function countApprovals(approvals: Array<Pick<ApprovedWarning, "count">>): number {
+  return approvals.reduce((sum, approved) => sum + approved.count, 0)
+}
+
+/**
+ * A cache file's content as it is: no migrations, no path rewriting. Throws on anything that isn't
+ * a cache version we can read as-is.
+ */
+export function parseCacheFile(content: string): StoredCacheFile {
+  const parsed = cacheFileSchema.parse(JSON.parse(content))
+  if (!COMPATIBLE_CACHE_VERSIONS.includes(parsed.version)) {
+    throw new Error(`cache v${parsed.version} is not one we can read as-is`)
+  }
+  return parsed
+}
+
+/**
+ * The approvals in a cache file's content, good enough to count them: v1.1 too, whose approvals aren't
+ * matched against any code (the wizard does that on its next run) but counted once each with their file,
+ * rule and message. Approvals from before 2.4 come without a severity instead of the error the wizard
+ * assumes for them. Throws on anything else we can't read.
+ */
+export function parseApprovalsForCounting(content: string): CountedApproval[] {
+  const legacy = legacyCacheFileSchema.safeParse(JSON.parse(content))
+  if (legacy.success) {
+    return legacy.data.approvedWarnings.map(({ file, ruleId, codeHash, message }) => ({
+      file,
+      ruleId,
+      codeHash,
+      contextHash: "",
+      scope: "",
+      message,
+      count: 1
+    }))
+  }
+  const parsed = parseCacheFile(content)
+  if (!VERSIONS_WITHOUT_SEVERITY.includes(parsed.version)) {
+    return parsed.approvedWarnings
+  }
+  return parsed.approvedWarnings.map(({ severity: _severity, ...approval }) => approval)
+}
+
+// Same fields in the same order, whichever code path built the approval
+function orderApprovalFields(approval: CachedApproval): CachedApproval {
+  const { file, ruleId, message, codeHash, contextHash, scope, severity, count } = approval
+  const { author, approvedAt, reason, expiresAt } = approval
+  return { file, ruleId, message, codeHash, contextHash, scope, severity, count, author, approvedAt, reason, expiresAt }
+}
+
+function groupApprovalsByFile(approvals: CachedApproval[]): Record<string, Omit<CachedApproval, "file">[]> {
+  const byFile: Record<string, Omit<CachedApproval, "file">[]> = {}
+  for (const { file, ...approval } of approvals) {
+    byFile[file] = [...(byFile[file] ?? []), approval]
+  }
+  return byFile
+}
+
+/**
+ * The cache as it goes to disk: approvals sorted (see compareApprovals), fields in a fixed order, two-space
+ * JSON. Approving in a different order writes the same file, so a diff shows only what was approved or dropped.
+ */
+export function serializeCache(cache: StoredCacheFile, groupByFile: boolean = false): string {
+  const approvals = [...cache.approvedWarnings].sort(compareApprovals).map(orderApprovalFields)
+  const stored = {
+    version: CACHE_VERSION,
+    eslintConfigHash: cache.eslintConfigHash,
+    ...(cache.eslintConfig ? { eslintConfig: cache.eslintConfig } : {}),
+    approvedWarnings: groupByFile ? groupApprovalsByFile(approvals) : approvals
+  }
+  return JSON.stringify(stored, null, 2) + "\n"
+}
+
+/**
+ * Order approvals by file, rule and code hash (the rest of the fingerprint breaks ties)
+ */
+export function compareApprovals(a: ApprovedWarning, b: ApprovedWarning): number {
+  const fields = (approval: ApprovedWarning) => [
+    approval.file,
+    approval.ruleId,
+    approval.codeHash,
+    approval.contextHash,
+    approval.scope,
+    approval.message,
+    approval.severity.toString()
+  ]
+  const left = fields(a)
+  const right = fields(b)
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) return left[i] < right[i] ? -1 : 1
+  }
+  return 0
+}
+
+async function writeCacheFile(cacheFile: string, cache: CacheFile, groupByFile: boolean): Promise<void> {
+  const tempFile = `${cacheFile}.tmp`
+  try {
+    await writeFile(tempFile, serializeCache(cache, groupByFile), "utf-8")
+    await rename(tempFile, cacheFile)
+  } catch (error) {
+    try {
+      const fs = await import("fs/promises")
+      try {
+        await fs.unlink(tempFile)
+      } catch {
+        // Ignore unlink errors
+      }
+    } catch {
+      // Ignore import errors
+    }
+    throw new Error(
+      `Failed to save cache file (probably a permissions issue, or your disk is full, or the universe hates you): ${error}`
+    )
+  }
+}
+
+/**
+ * Write the approvals back, each into the cache file responsible for it (see loadCache).
+ * Cache files that no longer hold any approvals are emptied, not deleted.
+ */
+export async function saveCache(cache: CacheFile): Promise<void> {
+  const policy = loadPolicy()
+  const byCacheFile = new Map<string, CachedApproval[]>()
+  for (const cacheFile of await currentCacheFiles()) {
+    byCacheFile.set(cacheFile, [])
+  }
+  for (const approved of cache.approvedWarnings) {
+    const filePath = resolve(approved.file)
+    const cacheFile = resolveCacheFile(filePath, process.cwd(), policy)
+    const approvals = byCacheFile.get(cacheFile) ?? []
+    approvals.push({ ...approved, file: toRelativePath(filePath, dirname(cacheFile)) })
+    byCacheFile.set(cacheFile, approvals)
+  }
+  if (byCacheFile.size === 0) {
+    // Per-package caches and nothing approved yet, still leave a trace that the config was accepted
+    byCacheFile.set(resolveCacheFile(join(process.cwd(), CACHE_FILE_NAME), process.cwd(), policy), [])
+  }
+
+  for (const [cacheFile, approvedWarnings] of byCacheFile) {
+    await writeCacheFile(cacheFile, { ...cache, approvedWarnings }, policy.cache.groupByFile)
+  }
+}
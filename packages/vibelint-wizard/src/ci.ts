@@ -0,0 +1,129 @@
+import kleur from "kleur"
+
+import { countApprovals, loadCache } from "./cache.js"
+import { diffEslintConfigs, formatEslintConfigChanges, resolveEslintConfig } from "./config.js"
+import { runESLint, type LintOptions } from "./eslint.js"
+import type { ChangedFiles } from "./git.js"
+import { loadPolicy } from "./policy.js"
+import { timed } from "./timings.js"
+import {
+  ALL_APPROVALS,
+  collectWarnings,
+  pruneStaleApprovals,
+  reconcileApprovals,
+  scopeToFiles,
+  type Warning
+} from "./warnings.js"
+
+export type CiFormat = "text" | "json"
+
+function severityName(warning: Warning): "error" | "warning" {
+  return warning.severity === 2 ? "error" : "warning"
+}
+
+/**
+ * Non-interactive approval gate for CI. Never prompts and never writes the cache.
+ *
+ * Unapproved issues go to stdout (one `file:line:column: severity rule: message` per line, or JSON),
+ * everything meant for humans goes to stderr. Exits non-zero when there are new issues, or when the ESLint
+ * config changed since the cache was last updated: nobody accepted it, so nobody re-reviewed what it changed.
+ * With `changed`, only those files are linted and only their approvals count.
+ */
+export async function runCi(format: CiFormat, lintOptions: LintOptions, changed?: ChangedFiles): Promise<void> {
+  const currentConfig = await timed("config", () => resolveEslintConfig(lintOptions.cache))
+  const cache = await timed("cache", () => loadCache(currentConfig))
+  const policy = loadPolicy()
+
+  const configChanged = cache.eslintConfigHash !== currentConfig.hash
+  if (configChanged) {
+    console.warn(
+      kleur.yellow(
+        "⚠️  Your ESLint config changed since the cache was last updated. Run vibelint-wizard locally to accept it (we're not doing it for you in CI)."
+      )
+    )
+    for (const line of formatEslintConfigChanges(diffEslintConfigs(cache.eslintConfig, currentConfig.snapshot))) {
+      console.warn(`  ${line}`)
+    }
+  }
+
+  console.warn(
+    kleur.blue(
+      `Running ESLint in CI mode on ${changed ? `${changed.files.length} ${changed.description}` : "everything"} (no questions asked, no cache written)...`
+    )
+  )
+  const eslintResults = await timed("eslint", () =>
+    runESLint({ ...lintOptions, files: changed?.files, contents: changed?.contents })
+  )
+  const warnings = await timed("fingerprints", () => collectWarnings(eslintResults, { contents: changed?.contents }))
+  const scope = changed ? scopeToFiles(changed.files) : ALL_APPROVALS
+
+  const approvedCount = countApprovals(cache.approvedWarnings.filter(scope))
+  const { newWarnings, reattachedCount, expiredCount, forbiddenCount, autoApprovedCount } = await timed(
+    "matching",
+    () => reconcileApprovals(cache, warnings, policy, scope)
+  )
+  // Only in memory, we just want to know how much dead weight the cache is carrying
+  const staleCount = countApprovals(pruneStaleApprovals(cache, warnings, scope))
+
+  if (format === "json") {
+    const report = {
+      newIssues: newWarnings.map((w) => ({
+        file: w.fingerprint.file,
+        line: w.line,
+        column: w.column,
+        severity: severityName(w),
+        ruleId: w.ruleId,
+        message: w.message
+      })),
+      summary: {
+        totalIssues: warnings.length,
+        newIssues: newWarnings.length,
+        approvedInCache: approvedCount,
+        reattachedApprovals: reattachedCount,
+        expiredApprovals: expiredCount,
+        forbiddenApprovals: forbiddenCount,
+        autoApprovedIssues: autoApprovedCount,
+        staleApprovals: staleCount,
+        eslintConfigChanged: configChanged
+      }
+    }
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    for (const w of newWarnings) {
+      console.log(`${w.fingerprint.file}:${w.line}:${w.column}: ${severityName(w)} ${w.ruleId}: ${w.message}`)
+    }
+  }
+
+  console.warn(
+    kleur.dim(
+      `${warnings.length} issue(s) found, ${newWarnings.length} not approved, ${reattachedCount} approval(s) matched moved code, ${expiredCount} expired, ${forbiddenCount} forbidden by policy, ${autoApprovedCount} auto-approved by policy, ${staleCount} stale approval(s) in the cache.`
+    )
+  )
+
+  if (newWarnings.length > 0) {
+    console.warn(
+      kleur
+        .red()
+        .bold(
+          `❌ ${newWarnings.length} unapproved issue(s). Fix them or run vibelint-wizard locally and commit the cache.`
+        )
+    )
+    // exitCode instead of exit() so piped stdout gets flushed
+    process.exitCode = 1
+    return
+  }
+
+  if (configChanged) {
+    console.warn(
+      kleur
+        .red()
+        .bold(
+          "❌ Every issue is approved, but under an ESLint config nobody accepted. Run vibelint-wizard locally and commit the cache."
+        )
+    )
+    process.exitCode = 1
+    return
+  }
+
+  console.warn(kleur.green("✓ Every issue is approved. The cache matches the code (for once)."))
+}
@@ -0,0 +1,615 @@
+import { createHash } from "crypto"
+import { existsSync, statSync } from "fs"
+import { mkdir, readFile, writeFile } from "fs/promises"
+import { basename, dirname, extname, join, relative, resolve, sep } from "path"
+
+import kleur from "kleur"
+import { z } from "zod"
+
+import { loadProjectESLint, type ESLintClass } from "./eslint.js"
+import { getProjectFiles } from "./git.js"
+
+// What we ask ESLint about when git can't tell us which files the project has
+const DEFAULT_EXTENSIONS = [".js", ".mjs", ".cjs", ".jsx", ".ts", ".mts", ".cts", ".tsx"]
+
+// In order of preference, when a project has more than one lying around
+const LOCKFILES = ["pnpm-lock.yaml", "package-lock.json", "npm-shrinkwrap.json", "yarn.lock"]
+
+// Doesn't exist, what ESLint says about files in it is what files get unless an override says otherwise
+const DEFAULT_PROBE_DIR = "vibelint-probe"
+
+// Resolved snapshots, so an unchanged config isn't resolved all over again on every run
+const SNAPSHOT_CACHE_LOCATION = "node_modules/.cache/vibelint/eslint-config.json"
+
+// Bump when the same config makes for a different snapshot
+const SNAPSHOT_CACHE_VERSION = 1
+
+const severitySchema = z.enum(["warn", "error"])
+
+// ESLint's own notation: "warn", or ["error", ...options]
+const ruleSettingSchema = z.union([severitySchema, z.tuple([severitySchema]).rest(z.unknown())])
+
+export const eslintConfigSnapshotSchema = z.object({
+  // Package → version(s), from the lockfile
+  plugins: z.record(z.string(), z.string()),
+  // File types (`*.ts`, `./*.ts`, `packages/legacy/**/*.ts`; those sharing the same rules ", "-joined) → rule → setting.
+  // Rules that are off aren't listed.
+  rules: z.record(z.string(), z.record(z.string(), ruleSettingSchema))
+})
+
+const snapshotCacheSchema = z.object({ key: z.string(), snapshot: eslintConfigSnapshotSchema })
+
+export type RuleSetting = z.infer<typeof ruleSettingSchema>
+
+/**
+ * What ESLint actually does with the project's files, as opposed to what the config files look like
+ */
+export type EslintConfigSnapshot = z.infer<typeof eslintConfigSnapshotSchema>
+
+export interface EslintConfig {
+  hash: string
+  snapshot: EslintConfigSnapshot
+}
+
+export interface RuleChange {
+  ruleId: string
+  fileTypes: string[]
+  // Undefined when the rule was (or is now) off
+  before?: RuleSetting
+  after?: RuleSetting
+}
+
+export interface PluginChange {
+  name: string
+  before?: string
+  after?: string
+}
+
+export interface EslintConfigChanges {
+  // File types both configs lint, the only ones compared rule by rule
+  fileTypes: string[]
+  addedFileTypes: string[]
+  removedFileTypes: string[]
+  rules: RuleChange[]
+  plugins: PluginChange[]
+  // The cache only kept a hash of the config it changed from (before v2.5, or migrated from v1.1): nothing to compare
+  previousUnknown: boolean
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+function toRuleSetting(value: unknown): RuleSetting | undefined {
+  const [severity, ...options]: unknown[] = Array.isArray(value) ? value : [value]
+  const level =
+    severity === 2 || severity === "error" ? "error" : severity === 1 || severity === "warn" ? "warn" : undefined
+  if (!level) return undefined
+  return options.length > 0 ? [level, ...options] : level
+}
+
+function severityOf(setting: RuleSetting): "warn" | "error" {
+  return typeof setting === "string" ? setting : setting[0]
+}
+
+/**
+ * Package name behind a plugin prefix, by ESLint's naming convention (`promise` → `eslint-plugin-promise`,
+ * `@scope` → `@scope/eslint-plugin`, `@scope/foo` → `@scope/eslint-plugin-foo`)
+ */
+function pluginPackageName(prefix: string): string {
+  if (prefix.startsWith("@")) {
+    const [scope, name] = prefix.split("/")
+    return name ? `${scope}/eslint-plugin-${name}` : `${scope}/eslint-plugin`
+  }
+  return prefix.startsWith("eslint-plugin-") ? prefix : `eslint-plugin-${prefix}`
+}
+
+/**
+ * Plugin package → the version the plugin claims (if it does). Flat configs hand us the plugin objects,
+ * .eslintrc only their names.
+ */
+function collectPlugins(plugins: unknown, found: Map<string, string | undefined>): void {
+  if (Array.isArray(plugins)) {
+    for (const name of plugins) {
+      if (typeof name === "string" && !found.has(pluginPackageName(name))) {
+        found.set(pluginPackageName(name), undefined)
+      }
+    }
+    return
+  }
+  if (!isRecord(plugins)) return
+  for (const [prefix, plugin] of Object.entries(plugins)) {
+    // "@" is ESLint's own rules
+    if (prefix === "@") continue
+    const meta = isRecord(plugin) && isRecord(plugin.meta) ? plugin.meta : {}
+    const name = typeof meta.name === "string" ? meta.name : pluginPackageName(prefix)
+    found.set(name, typeof meta.version === "string" ? meta.version : found.get(name))
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+const packageLockSchema = z.object({
+  // v2+: "node_modules/eslint-plugin-foo", or nested deeper when versions clash
+  packages: z.record(z.string(), z.object({ version: z.string().optional() })).optional(),
+  // v1
+  dependencies: z.record(z.string(), z.object({ version: z.string().optional() })).optional()
+})
+
+/**
+ * Every version of `name` a lockfile installs. Only reads what we need out of it, we're not writing a YAML parser for this.
+ */
+function findLockedVersions(lockfile: string, content: string, name: string): string[] {
+  const escaped = escapeRegExp(name)
+  let versions: string[] = []
+  if (lockfile === "pnpm-lock.yaml") {
+    // `  eslint-plugin-foo@1.2.3:`, `  '@scope/eslint-plugin@1.2.3(eslint@9.0.0)':`, older `  /eslint-plugin-foo/1.2.3:`
+    const pattern = new RegExp(`^\\s+['"]?/?${escaped}[@/](\\d[^('":\\s]*)`, "gm")
+    versions = [...content.matchAll(pattern)].map((match) => match[1])
+  } else if (lockfile === "yarn.lock") {
+    // `eslint-plugin-foo@^1.0.0, eslint-plugin-foo@^1.2.0:` followed by `  version "1.2.3"` (or `version: 1.2.3` in Yarn 2+)
+    const pattern = new RegExp(`^"?${escaped}@[^\\n]*:\\n\\s+version:? "?([^"\\n]+)"?`, "gm")
+    versions = [...content.matchAll(pattern)].map((match) => match[1])
+  } else {
+    const lock = packageLockSchema.safeParse(JSON.parse(content))
+    if (!lock.success) return []
+    const packages = Object.entries(lock.data.packages ?? {})
+      .filter(([path]) => path.endsWith(`node_modules/${name}`))
+      .map(([, entry]) => entry.version)
+    versions = [...packages, lock.data.dependencies?.[name]?.version].filter(
+      (version): version is string => version !== undefined
+    )
+  }
+  return [...new Set(versions)].sort()
+}
+
+/**
+ * Plugin package → version(s) from the lockfile, or what the plugin itself says for those the lockfile
+ * doesn't know (workspace links, plugins living in the repo). Plugins without either are left out.
+ */
+async function resolvePluginVersions(plugins: Map<string, string | undefined>): Promise<Record<string, string>> {
+  const lockfile = LOCKFILES.find((file) => existsSync(join(process.cwd(), file)))
+  let content = ""
+  if (lockfile) {
+    try {
+      content = await readFile(join(process.cwd(), lockfile), "utf-8")
+    } catch (error) {
+      console.warn(`Warning: Could not read ${lockfile}, plugin updates will go unnoticed: ${error}`)
+    }
+  }
+  const versions: Record<string, string> = {}
+  for (const name of [...plugins.keys()].sort()) {
+    let locked: string[] = []
+    try {
+      locked = lockfile && content ? findLockedVersions(lockfile, content, name) : []
+    } catch {
+      // A lockfile we can't make sense of, same as no lockfile
+    }
+    const version = locked.length > 0 ? locked.join(", ") : plugins.get(name)
+    if (version !== undefined) {
+      versions[name] = version
+    }
+  }
+  return versions
+}
+
+/**
+ * Where a set of rules applies: files of a kind (`*.ts`, `*.test.ts`) in a directory and below it, or with
+ * `exact` only those right in it. Directories are relative to the project and "/"-separated, "" for the top.
+ */
+interface FileTypeScope {
+  dir: string
+  kind: string
+  exact?: boolean
+}
+
+// `*.ts` everywhere, `./*.ts` only at the top, `packages/legacy/**/*.ts` for a directory
+function formatFileType({ dir, kind, exact }: FileTypeScope): string {
+  if (exact) return `${dir || "."}/${kind}`
+  return dir ? `${dir}/**/${kind}` : kind
+}
+
+function parseFileType(fileType: string): FileTypeScope {
+  // Snapshots from before directories were told apart went by bare extension
+  if (fileType.startsWith(".") && !fileType.startsWith("./")) return { dir: "", kind: `*${fileType}` }
+  if (fileType.startsWith("./")) return { dir: "", kind: fileType.substring(2), exact: true }
+  const separator = fileType.lastIndexOf("/**/")
+  return separator === -1
+    ? { dir: "", kind: fileType }
+    : { dir: fileType.substring(0, separator), kind: fileType.substring(separator + 4) }
+}
+
+/**
+ * `*.test.ts` and `*.ts` for `foo.test.ts`, the narrower kind first. Nothing for files without an extension.
+ */
+function fileKinds(file: string): string[] {
+  const extensions = basename(file).replace(/^\.+/, "").split(".").slice(1)
+  if (extensions.length === 0) return []
+  const extension = `*.${extensions[extensions.length - 1]}`
+  return extensions.length > 1 ? [`*.${extensions.slice(-2).join(".")}`, extension] : [extension]
+}
+
+// Files of `kind` are also covered by rules for their plain extension
+function kindsCovering(kind: string): string[] {
+  const extension = `*${extname(kind)}`
+  return kind === extension ? [kind] : [kind, extension]
+}
+
+function depthOf(dir: string): number {
+  return dir === "" ? 0 : dir.split("/").length
+}
+
+function isWithin(dir: string, ancestor: string): boolean {
+  return ancestor === "" || dir === ancestor || dir.startsWith(`${ancestor}/`)
+}
+
+// Outermost first, "" (the project itself) left out
+function ancestorsOf(dir: string): string[] {
+  const parts = dir === "" ? [] : dir.split("/")
+  return parts.map((_, index) => parts.slice(0, index + 1).join("/"))
+}
+
+/**
+ * The most specific of `fileTypes` covering `scope` (an exact one: files right in that directory, otherwise
+ * some directory below it): deepest directory first, then exact ones, then the narrower kind. That's not
+ * necessarily how the config stacks its overrides, snapshots are built to make it true.
+ */
+function findFileType(fileTypes: Iterable<string>, scope: FileTypeScope): string | undefined {
+  const kinds = kindsCovering(scope.kind)
+  let best: { fileType: string; rank: number; kindIndex: number } | undefined
+  for (const fileType of fileTypes) {
+    const candidate = parseFileType(fileType)
+    const kindIndex = kinds.indexOf(candidate.kind)
+    if (kindIndex === -1) continue
+    if (candidate.exact ? !scope.exact || scope.dir !== candidate.dir : !isWithin(scope.dir, candidate.dir)) continue
+    const rank = depthOf(candidate.dir) * 2 + (candidate.exact ? 1 : 0)
+    if (!best || rank > best.rank || (rank === best.rank && kindIndex < best.kindIndex)) {
+      best = { fileType, rank, kindIndex }
+    }
+  }
+  return best?.fileType
+}
+
+function rulesFor<T>(rulesByFileType: Map<string, T>, scope: FileTypeScope): T | undefined {
+  const fileType = findFileType(rulesByFileType.keys(), scope)
+  return fileType === undefined ? undefined : rulesByFileType.get(fileType)
+}
+
+/**
+ * One file per directory and kind to ask ESLint about (overrides go by directory and file name pattern,
+ * asking about every file only repeats the answers, slowly), keyed by `formatFileType`. Plus, per kind, an
+ * imaginary file in a directory that doesn't exist for what files get by default. Outside of git it's only
+ * the imaginary files, of each usual type.
+ */
+function listProbeFiles(files: string[] | undefined): Map<string, string> {
+  const probes = new Map<string, string>()
+  const kinds = new Set<string>(files ? [] : DEFAULT_EXTENSIONS.map((extension) => `*${extension}`))
+  for (const file of [...(files ?? [])].sort()) {
+    const [kind] = fileKinds(file)
+    if (!kind) continue
+    const dir = relative(process.cwd(), dirname(file)).split(sep).join("/")
+    const fileType = formatFileType({ dir, kind, exact: dir === "" })
+    if (!probes.has(fileType) && existsSync(file)) {
+      probes.set(fileType, file)
+      kinds.add(kind)
+    }
+  }
+  for (const kind of kinds) {
+    probes.set(kind, join(process.cwd(), DEFAULT_PROBE_DIR, kind.replace("*", "index")))
+  }
+  return probes
+}
+
+/**
+ * Fewest file types that give every probed directory the rules ESLint resolved for it. What the imaginary
+ * files got goes for the whole project, then directory by directory, top down: one that `findFileType` gets
+ * wrong gets its rules as high up the tree as that doesn't change the rules of any directory already settled.
+ */
+function scopeRules(resolved: Map<string, string>): Map<string, string> {
+  const byKind = new Map<string, Map<string, string>>()
+  for (const [fileType, rules] of resolved) {
+    const { dir, kind, exact } = parseFileType(fileType)
+    if (!exact && dir === "") continue
+    const dirs = byKind.get(kind) ?? new Map<string, string>()
+    byKind.set(kind, dirs.set(dir, rules))
+  }
+
+  const scoped = new Map<string, string>()
+  // Plain extensions first, so `*.test.ts` only gets its own rules where they differ from `*.ts`
+  const kinds = [...new Set([...resolved.keys()].map((fileType) => parseFileType(fileType).kind))].sort(
+    (a, b) => kindsCovering(a).length - kindsCovering(b).length || a.localeCompare(b)
+  )
+  for (const kind of kinds) {
+    const defaults = resolved.get(kind)
+    if (defaults !== undefined && rulesFor(scoped, { dir: "", kind }) !== defaults) {
+      scoped.set(kind, defaults)
+    }
+
+    const rulesByDir = byKind.get(kind) ?? new Map<string, string>()
+    const settled: string[] = []
+    for (const dir of [...rulesByDir.keys()].sort((a, b) => depthOf(a) - depthOf(b) || a.localeCompare(b))) {
+      settled.push(dir)
+      const rules = rulesByDir.get(dir)
+      if (rules === undefined || rulesFor(scoped, { dir, kind, exact: dir === "" }) === rules) continue
+      if (dir === "") {
+        scoped.set(formatFileType({ dir, kind, exact: true }), rules)
+        continue
+      }
+      const target =
+        ancestorsOf(dir).find((ancestor) => {
+          const fileType = formatFileType({ dir: ancestor, kind })
+          if (scoped.has(fileType)) return false
+          const attempt = new Map(scoped).set(fileType, rules)
+          return settled
+            .filter((other) => other !== "" && isWithin(other, ancestor))
+            .every((other) => rulesFor(attempt, { dir: other, kind, exact: true }) === rulesByDir.get(other))
+        }) ?? dir
+      scoped.set(formatFileType({ dir: target, kind }), rules)
+    }
+  }
+  return scoped
+}
+
+/**
+ * Rules and severities per file type as ESLint resolves them (shared configs, overrides and all),
+ * plus the versions of ESLint and every plugin in use. Directories whose overrides give them other
+ * rules get file types of their own.
+ */
+async function snapshotEslintConfig(ESLint: ESLintClass, probes: Map<string, string>): Promise<EslintConfigSnapshot> {
+  const eslint = new ESLint({ cwd: process.cwd() })
+  const resolved = new Map<string, string>()
+  // JSON (what file types are compared by) → rules
+  const rulesByJson = new Map<string, Record<string, RuleSetting>>()
+  const plugins = new Map<string, string | undefined>([["eslint", undefined]])
+
+  for (const [fileType, file] of probes) {
+    let config: unknown
+    try {
+      config = await eslint.calculateConfigForFile(file)
+    } catch (error) {
+      throw new Error(
+        `ESLint couldn't work out its config for ${file}: ${error instanceof Error ? error.message : error}`,
+        { cause: error }
+      )
+    }
+    // Flat config has no config at all for files it ignores or doesn't lint
+    if (!isRecord(config)) continue
+
+    collectPlugins(config.plugins, plugins)
+    const rules: Record<string, RuleSetting> = {}
+    for (const [ruleId, value] of Object.entries(isRecord(config.rules) ? config.rules : {}).sort(([a], [b]) =>
+      a.localeCompare(b)
+    )) {
+      const setting = toRuleSetting(value)
+      if (setting) rules[ruleId] = setting
+    }
+    const json = JSON.stringify(rules)
+    rulesByJson.set(json, rules)
+    resolved.set(fileType, json)
+  }
+
+  // File types with identical rules share one entry, keeps the cache file from repeating itself
+  const fileTypesByRules = new Map<string, string[]>()
+  for (const [fileType, rules] of scopeRules(resolved)) {
+    fileTypesByRules.set(rules, [...(fileTypesByRules.get(rules) ?? []), fileType])
+  }
+  const rules: EslintConfigSnapshot["rules"] = {}
+  for (const [groupRules, fileTypes] of [...fileTypesByRules]
+    .map(([groupRules, fileTypes]): [string, string[]] => [groupRules, fileTypes.sort()])
+    .sort(([, a], [, b]) => a.join(", ").localeCompare(b.join(", ")))) {
+    rules[fileTypes.join(", ")] = rulesByJson.get(groupRules) ?? {}
+  }
+
+  return { plugins: await resolvePluginVersions(plugins), rules }
+}
+
+/**
+ * What a snapshot depends on short of resolving the config: ESLint's version, the probed directories and
+ * kinds, and the config files (anything with "eslint" in its name), package.json files and lockfile on disk.
+ * A config importing a file named otherwise goes unnoticed, `--no-cache` for that.
+ */
+function snapshotCacheKey(ESLint: ESLintClass, probes: Map<string, string>, files: string[] | undefined): string {
+  const hash = createHash("sha256").update(
+    JSON.stringify([SNAPSHOT_CACHE_VERSION, ESLint.version, process.env.ESLINT_USE_FLAT_CONFIG, [...probes.keys()]])
+  )
+  const configFiles = new Set([
+    ...(files ?? []).filter((file) => /eslint/i.test(basename(file)) || basename(file) === "package.json"),
+    ...["package.json", ...LOCKFILES].map((file) => join(process.cwd(), file))
+  ])
+  for (const file of [...configFiles].sort()) {
+    try {
+      const stats = statSync(file)
+      hash.update(`\0${file}\0${stats.mtimeMs}\0${stats.size}`)
+    } catch {
+      hash.update(`\0${file}\0missing`)
+    }
+  }
+  return hash.digest("hex")
+}
+
+async function readSnapshotCache(key: string): Promise<EslintConfigSnapshot | undefined> {
+  try {
+    const cached = snapshotCacheSchema.safeParse(JSON.parse(await readFile(SNAPSHOT_CACHE_LOCATION, "utf-8")))
+    return cached.success && cached.data.key === key ? cached.data.snapshot : undefined
+  } catch {
+    return undefined
+  }
+}
+
+async function writeSnapshotCache(key: string, snapshot: EslintConfigSnapshot): Promise<void> {
+  try {
+    await mkdir(dirname(SNAPSHOT_CACHE_LOCATION), { recursive: true })
+    await writeFile(SNAPSHOT_CACHE_LOCATION, JSON.stringify({ key, snapshot }))
+  } catch {
+    // Only a cache, the next run resolves the config again
+  }
+}
+
+/**
+ * Resolve the project's ESLint config and hash what came out, so reformatting a config file
+ * changes nothing and bumping a shared config or a plugin does. Unless `useCache` is off, the last
+ * snapshot is reused while nothing it depends on changed.
+ */
+export async function resolveEslintConfig(useCache: boolean = true): Promise<EslintConfig> {
+  const ESLint = await loadProjectESLint()
+  const files = getProjectFiles()
+  const probes = listProbeFiles(files)
+  const key = snapshotCacheKey(ESLint, probes, files)
+  let snapshot = useCache ? await readSnapshotCache(key) : undefined
+  if (!snapshot) {
+    snapshot = await snapshotEslintConfig(ESLint, probes)
+    await writeSnapshotCache(key, snapshot)
+  }
+  if (Object.keys(snapshot.rules).length === 0) {
+    console.warn(
+      "Warning: ESLint doesn't lint a single file in this project! (Are you even using ESLint? Or are you just winging it?)"
+    )
+  }
+  return { hash: createHash("sha256").update(JSON.stringify(snapshot)).digest("hex"), snapshot }
+}
+
+function rulesPerFileType(snapshot: EslintConfigSnapshot): Map<string, Record<string, RuleSetting>> {
+  const perFileType = new Map<string, Record<string, RuleSetting>>()
+  for (const [fileTypes, rules] of Object.entries(snapshot.rules)) {
+    for (const fileType of fileTypes.split(", ")) {
+      perFileType.set(formatFileType(parseFileType(fileType)), rules)
+    }
+  }
+  return perFileType
+}
+
+/**
+ * Rule by rule, what a config change added, removed or changed. One entry per change and rule,
+ * however many file types it applies to. A file type only one side has (a new override for a directory)
+ * is compared against whatever the other side applies there.
+ */
+export function diffEslintConfigs(
+  before: EslintConfigSnapshot | undefined,
+  after: EslintConfigSnapshot
+): EslintConfigChanges {
+  if (!before) {
+    return { fileTypes: [], addedFileTypes: [], removedFileTypes: [], rules: [], plugins: [], previousUnknown: true }
+  }
+  const beforeRules = rulesPerFileType(before)
+  const afterRules = rulesPerFileType(after)
+  const fileTypes: string[] = []
+  const addedFileTypes: string[] = []
+  const removedFileTypes: string[] = []
+  const changes = new Map<string, RuleChange>()
+  for (const fileType of [...new Set([...beforeRules.keys(), ...afterRules.keys()])].sort()) {
+    const old = rulesFor(beforeRules, parseFileType(fileType))
+    const current = rulesFor(afterRules, parseFileType(fileType))
+    if (!current) {
+      removedFileTypes.push(fileType)
+      continue
+    }
+    if (!old) {
+      addedFileTypes.push(fileType)
+      continue
+    }
+    fileTypes.push(fileType)
+    for (const ruleId of new Set([...Object.keys(old), ...Object.keys(current)])) {
+      const oldSetting = JSON.stringify(old[ruleId])
+      const newSetting = JSON.stringify(current[ruleId])
+      if (oldSetting === newSetting) continue
+      const key = `${ruleId}\0${oldSetting}\0${newSetting}`
+      const change = changes.get(key) ?? { ruleId, fileTypes: [], before: old[ruleId], after: current[ruleId] }
+      change.fileTypes.push(fileType)
+      changes.set(key, change)
+    }
+  }
+
+  const plugins: PluginChange[] = []
+  for (const name of [...new Set([...Object.keys(before.plugins), ...Object.keys(after.plugins)])].sort()) {
+    if (before.plugins[name] !== after.plugins[name]) {
+      plugins.push({ name, before: before.plugins[name], after: after.plugins[name] })
+    }
+  }
+
+  return {
+    fileTypes,
+    addedFileTypes,
+    removedFileTypes,
+    rules: [...changes.values()].sort((a, b) => a.ruleId.localeCompare(b.ruleId)),
+    plugins,
+    previousUnknown: false
+  }
+}
+
+function formatOptions(setting: RuleSetting): string {
+  if (typeof setting === "string") return "no options"
+  const json = JSON.stringify(setting.slice(1))
+  return json.length > 60 ? `${json.substring(0, 57)}...` : json
+}
+
+/**
+ * `error` (turned on), `was warn` (turned off), `warn → error` or `options [...] → [...]`
+ */
+export function describeRuleChange({ before, after }: RuleChange): string {
+  if (!before) return after ? severityOf(after) : "off"
+  if (!after) return `was ${severityOf(before)}`
+  if (severityOf(before) !== severityOf(after)) return `${severityOf(before)} → ${severityOf(after)}`
+  return `options ${formatOptions(before)} → ${formatOptions(after)}`
+}
+
+/**
+ * What a config change did to `ruleId` for `file` (relative or absolute): "off" when it's not reported there
+ * anymore (rule turned off, or the whole file type isn't linted), the change when its severity or options changed.
+ * Undefined when nothing changed, or when the rule was off before and approvals for it can't be in play.
+ */
+export function findRuleChange(
+  changes: EslintConfigChanges,
+  ruleId: string,
+  file: string
+): RuleChange | "off" | undefined {
+  const [kind] = fileKinds(file)
+  if (!kind) return undefined
+  const dir = relative(process.cwd(), dirname(resolve(file)))
+    .split(sep)
+    .join("/")
+  const fileType = findFileType([...changes.fileTypes, ...changes.removedFileTypes], { dir, kind, exact: true })
+  if (fileType === undefined) return undefined
+  if (changes.removedFileTypes.includes(fileType)) return "off"
+  const change = changes.rules.find(
+    (candidate) => candidate.ruleId === ruleId && candidate.fileTypes.includes(fileType)
+  )
+  if (!change?.before) return undefined
+  return change.after ? change : "off"
+}
+
+/**
+ * Lines for humans: `+` turned on, `-` turned off, `~` changed severity, options or version.
+ * File types are only named when a change doesn't apply to all of them.
+ */
+export function formatEslintConfigChanges(changes: EslintConfigChanges): string[] {
+  const lines: string[] = []
+  if (changes.previousUnknown) {
+    lines.push(
+      `${kleur.yellow("?")} previous config unknown (your cache only kept a hash of it), so no idea what changed`
+    )
+  }
+  for (const fileType of changes.addedFileTypes) {
+    lines.push(`${kleur.green("+")} ${kleur.cyan(fileType)}: linted now`)
+  }
+  for (const fileType of changes.removedFileTypes) {
+    lines.push(`${kleur.red("-")} ${kleur.cyan(fileType)}: not linted anymore`)
+  }
+  for (const change of changes.rules) {
+    const marker = !change.before ? kleur.green("+") : !change.after ? kleur.red("-") : kleur.yellow("~")
+    const where =
+      change.fileTypes.length < changes.fileTypes.length ? kleur.dim(` (${change.fileTypes.join(", ")})`) : ""
+    lines.push(`${marker} ${kleur.cyan(change.ruleId)}${where}: ${describeRuleChange(change)}`)
+  }
+  for (const { name, before, after: version } of changes.plugins) {
+    if (!before) {
+      lines.push(`${kleur.green("+")} ${kleur.magenta(name)}: ${version}`)
+    } else if (!version) {
+      lines.push(`${kleur.red("-")} ${kleur.magenta(name)}: was ${before}`)
+    } else {
+      lines.push(`${kleur.yellow("~")} ${kleur.magenta(name)}: ${before} → ${version}`)
+    }
+  }
+  return lines
+}
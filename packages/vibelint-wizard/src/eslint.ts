@@ -0,0 +1,340 @@
+import { spawnSync } from "child_process"
+import { existsSync } from "fs"
+import { readFile } from "fs/promises"
+import { createRequire } from "module"
+import { join, relative, resolve } from "path"
+import { pathToFileURL } from "url"
+
+import kleur from "kleur"
+import { z } from "zod"
+
+import { toRelativePath } from "./fingerprint.js"
+import { loadPolicy, type VibelintPolicy } from "./policy.js"
+
+// Only when set do we shell out to the ESLint CLI (and parse its `--format json` output),
+// otherwise the project's own ESLint runs in-process
+const ESLINT_CMD = process.env.VIBELINT_ESLINT_CMD
+
+// ESLint's own result cache, keyed by file content and config. Safe with approvals changing in between:
+// suppressed or not, we collect vibelint-suppressed issues all the same.
+const ESLINT_CACHE_LOCATION = "node_modules/.cache/vibelint/eslintcache"
+
+// Multithreaded linting (`concurrency`) arrived in ESLint 9.34, flat config only
+const MIN_CONCURRENCY_VERSION = [9, 34]
+
+export type Concurrency = number | "auto" | "off"
+
+export interface LintOptions {
+  // Only lint these (absolute paths, missing ones are skipped) instead of the whole project
+  files?: string[]
+  // Lint this text instead of what's on disk, by absolute path (only through the Node API)
+  contents?: Map<string, string>
+  // Reuse ESLint's cache so unchanged files aren't linted again
+  cache: boolean
+  // Worker threads, where the project's ESLint supports them
+  concurrency: Concurrency
+}
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = { cache: true, concurrency: "auto" }
+
+export interface ESLintMessage {
+  ruleId: string | null
+  severity: number
+  message: string
+  line: number
+  column: number
+  endLine?: number
+  endColumn?: number
+  source?: string
+  suppressions?: Array<{ kind: string; justification: string }>
+}
+
+export interface ESLintFileResult {
+  filePath: string
+  messages: ESLintMessage[]
+  suppressedMessages?: ESLintMessage[]
+  errorCount: number
+  warningCount: number
+  fatalErrorCount?: number
+  fixableErrorCount?: number
+  fixableWarningCount?: number
+  usedDeprecatedRules?: unknown[]
+}
+
+// Zod schemas for runtime validation
+const eslintMessageSchema = z.object({
+  ruleId: z.string().nullable(),
+  severity: z.number(),
+  message: z.string(),
+  line: z.number(),
+  column: z.number(),
+  endLine: z.number().optional(),
+  endColumn: z.number().optional(),
+  source: z.string().optional(),
+  suppressions: z.array(z.object({ kind: z.string(), justification: z.string() })).optional()
+})
+
+const eslintFileResultSchema = z.object({
+  filePath: z.string(),
+  messages: z.array(eslintMessageSchema),
+  suppressedMessages: z.array(eslintMessageSchema).optional(),
+  errorCount: z.number(),
+  warningCount: z.number(),
+  fatalErrorCount: z.number().optional(),
+  fixableErrorCount: z.number().optional(),
+  fixableWarningCount: z.number().optional(),
+  usedDeprecatedRules: z.array(z.unknown()).optional()
+})
+
+// ESLint's eslint-suppressions.json: file → rule → how many errors are suppressed. Files are relative to where
+// ESLint runs, which we take to be the directory of vibelint.config (like the plugin does).
+const eslintSuppressionsSchema = z.record(z.string(), z.record(z.string(), z.object({ count: z.number().int() })))
+
+export type EslintSuppressions = z.infer<typeof eslintSuppressionsSchema>
+
+/**
+ * `--suppressions-location` if given (like ESLint's flag), otherwise `eslintSuppressions.file` from vibelint.config
+ */
+export function resolveSuppressionsFile(policy: VibelintPolicy, location?: string): string {
+  return location ? resolve(location) : join(policy.dir, policy.eslintSuppressions.file)
+}
+
+export async function readEslintSuppressions(suppressionsFile: string): Promise<EslintSuppressions> {
+  try {
+    return eslintSuppressionsSchema.parse(JSON.parse(await readFile(suppressionsFile, "utf-8")))
+  } catch (error) {
+    throw new Error(
+      `${relative(process.cwd(), suppressionsFile)} is not an ESLint suppressions file (or not one we understand): ${error instanceof Error ? error.message : error}`
+    )
+  }
+}
+
+/**
+ * What the ESLint CLI does with eslint-suppressions.json, which its Node API leaves to us: when a file has
+ * no more errors of a rule than suppressed, they all move to `suppressedMessages`. One more and they all stay.
+ * File names in `suppressions` are relative to `baseDir`.
+ */
+function applyEslintSuppressions(
+  results: ESLintFileResult[],
+  suppressions: EslintSuppressions,
+  baseDir: string
+): ESLintFileResult[] {
+  return results.map((result) => {
+    const suppressedRules = suppressions[toRelativePath(result.filePath, baseDir)]
+    if (!suppressedRules) return result
+
+    const errorsByRule = new Map<string, number>()
+    for (const msg of result.messages) {
+      if (msg.severity === 2 && msg.ruleId) {
+        errorsByRule.set(msg.ruleId, (errorsByRule.get(msg.ruleId) ?? 0) + 1)
+      }
+    }
+    const isSuppressed = (msg: ESLintMessage): boolean =>
+      msg.severity === 2 &&
+      msg.ruleId !== null &&
+      suppressedRules[msg.ruleId] !== undefined &&
+      (errorsByRule.get(msg.ruleId) ?? 0) <= suppressedRules[msg.ruleId].count
+
+    const suppressed = result.messages.filter(isSuppressed)
+    if (suppressed.length === 0) return result
+    return {
+      ...result,
+      messages: result.messages.filter((msg) => !isSuppressed(msg)),
+      suppressedMessages: [
+        ...(result.suppressedMessages ?? []),
+        ...suppressed.map((msg) => ({ ...msg, suppressions: [{ kind: "file", justification: "" }] }))
+      ],
+      errorCount: result.errorCount - suppressed.length
+    }
+  })
+}
+
+interface ESLintInstance {
+  lintFiles(patterns: string[]): Promise<unknown>
+  lintText(code: string, options: { filePath: string; warnIgnored: boolean }): Promise<unknown>
+  isPathIgnored(filePath: string): Promise<boolean>
+  calculateConfigForFile(filePath: string): Promise<unknown>
+}
+
+interface ESLintConstructorOptions {
+  cwd: string
+  cache?: boolean
+  cacheLocation?: string
+  cacheStrategy?: "content" | "metadata"
+  concurrency?: Concurrency
+}
+
+export interface ESLintClass {
+  new (options: ESLintConstructorOptions): ESLintInstance
+  version?: unknown
+  configType?: unknown
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null
+}
+
+// ESLint's API doesn't come with types we can rely on here, a class is all we can check for
+function isESLintClass(value: unknown): value is ESLintClass {
+  return typeof value === "function"
+}
+
+/**
+ * The `ESLint` class of the project's own eslint package, flat config or .eslintrc as ESLint itself
+ * would decide (`loadESLint` honors ESLINT_USE_FLAT_CONFIG)
+ */
+export async function loadProjectESLint(): Promise<ESLintClass> {
+  let eslintPath: string
+  try {
+    eslintPath = createRequire(join(process.cwd(), "package.json")).resolve("eslint")
+  } catch {
+    throw new Error(
+      "Couldn't find the eslint package in this project. Install it, or point VIBELINT_ESLINT_CMD at an ESLint command that prints `--format json`."
+    )
+  }
+
+  const loaded: unknown = await import(pathToFileURL(eslintPath).href)
+  const api = isRecord(loaded) && isRecord(loaded.default) ? loaded.default : loaded
+  if (isRecord(api) && typeof api.loadESLint === "function") {
+    const eslintClass: unknown = await api.loadESLint()
+    if (isESLintClass(eslintClass)) return eslintClass
+  }
+  if (isRecord(api) && isESLintClass(api.ESLint)) {
+    return api.ESLint
+  }
+  throw new Error(`${eslintPath} doesn't look like ESLint (no ESLint class to be found).`)
+}
+
+function supportsConcurrency(ESLint: ESLintClass): boolean {
+  if (ESLint.configType !== "flat" || typeof ESLint.version !== "string") return false
+  const [major = 0, minor = 0] = ESLint.version.split(".").map(Number)
+  const [minMajor, minMinor] = MIN_CONCURRENCY_VERSION
+  return major > minMajor || (major === minMajor && minor >= minMinor)
+}
+
+function parseResults(results: unknown): ESLintFileResult[] {
+  const parsed = z.array(eslintFileResultSchema).safeParse(results)
+  if (!parsed.success) {
+    throw new Error(
+      `ESLint's results don't look like ESLint results (did a plugin eat them?): ${parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ")}`
+    )
+  }
+  return parsed.data
+}
+
+async function runESLintApi({ files, contents, cache, concurrency }: LintOptions): Promise<ESLintFileResult[]> {
+  const ESLint = await loadProjectESLint()
+  let results: unknown
+  try {
+    const eslint = new ESLint({
+      cwd: process.cwd(),
+      // Content, not mtime: switching branches touches every file without changing most of them
+      ...(cache ? { cache, cacheLocation: ESLINT_CACHE_LOCATION, cacheStrategy: "content" } : {}),
+      ...(supportsConcurrency(ESLint) ? { concurrency } : {})
+    })
+    const patterns: string[] = []
+    // Named files get linted even when ignored (with a warning about it), so leave those out ourselves
+    for (const file of files ?? ["."]) {
+      if (!files || ((contents?.has(file) || existsSync(file)) && !(await eslint.isPathIgnored(file)))) {
+        patterns.push(file)
+      }
+    }
+    if (patterns.length === 0) return []
+    if (contents) {
+      // No ESLint cache and no threads for text, but it's only the files in question
+      const perFile: unknown[] = []
+      for (const file of patterns) {
+        const text = contents.get(file)
+        const fileResults: unknown =
+          text === undefined
+            ? await eslint.lintFiles([file])
+            : await eslint.lintText(text, { filePath: file, warnIgnored: false })
+        if (Array.isArray(fileResults)) perFile.push(...fileResults)
+      }
+      results = perFile
+    } else {
+      results = await eslint.lintFiles(patterns)
+    }
+  } catch (error) {
+    // Config errors, missing plugins, parse failures of the config itself: ESLint's message says it best
+    throw new Error(`ESLint refused to lint your project: ${error instanceof Error ? error.message : error}`, {
+      cause: error
+    })
+  }
+
+  // Deferring to eslint-suppressions.json (what the plugin does too): ESLint-suppressed errors don't resurface
+  // here. Otherwise they're the wizard's business like any other error.
+  const policy = loadPolicy()
+  const parsed = parseResults(results)
+  const suppressionsFile = resolveSuppressionsFile(policy)
+  return policy.eslintSuppressions.defer && existsSync(suppressionsFile)
+    ? applyEslintSuppressions(parsed, await readEslintSuppressions(suppressionsFile), policy.dir)
+    : parsed
+}
+
+// Good enough for file names, which is all we ever append
+function shellQuote(arg: string): string {
+  return process.platform === "win32" ? `"${arg}"` : `'${arg.replace(/'/g, "'\\''")}'`
+}
+
+function runESLintCli(command: string, files: string[] | undefined): ESLintFileResult[] {
+  const existing = files?.filter((file) => existsSync(file))
+  if (existing?.length === 0) return []
+  const fullCommand = existing ? `${command} ${existing.map(shellQuote).join(" ")}` : command
+  const result = spawnSync(fullCommand, [], {
+    encoding: "utf-8",
+    cwd: process.cwd(),
+    stdio: ["inherit", "pipe", "pipe"],
+    shell: true,
+    // Big projects print big JSON, the default 1 MB is nothing
+    maxBuffer: 1024 * 1024 * 1024
+  })
+
+  if (result.stdout && result.stdout.trim()) {
+    try {
+      const parsed = z.array(eslintFileResultSchema).parse(JSON.parse(result.stdout))
+      return parsed
+    } catch (parseError) {
+      console.error("Well, this is awkward. ESLint ran but gave us garbage instead of JSON:")
+      if (parseError instanceof z.ZodError) {
+        console.error(
+          "Zod validation error (because apparently ESLint's output doesn't match what we expected):",
+          parseError.issues
+        )
+      } else {
+        console.error("JSON parse error (because parsing is hard, apparently):", parseError)
+      }
+      console.error("Raw output (first 500 chars, because that's all we care about):", result.stdout.substring(0, 500))
+      if (result.stderr) {
+        console.error("Stderr (where ESLint probably complained about your code):", result.stderr)
+      }
+      process.exit(1)
+    }
+  }
+
+  console.error("ESLint ran but said... nothing. Absolutely nothing. How helpful.")
+  if (result.stderr) {
+    console.error("Stderr (maybe there's a clue here?):", result.stderr)
+  }
+  if (result.error) {
+    console.error("Error (the actual problem, probably):", result.error)
+  }
+  process.exit(1)
+}
+
+/**
+ * Lint the whole project from the current directory, or only `options.files`.
+ * Uses the project's ESLint Node API unless VIBELINT_ESLINT_CMD says to run a command instead,
+ * in which case `files` are appended to it, caching and threads are up to the command and
+ * `contents` can't be handed over: the command lints what's on disk.
+ */
+export async function runESLint(options: LintOptions = DEFAULT_LINT_OPTIONS): Promise<ESLintFileResult[]> {
+  if (ESLINT_CMD && options.contents) {
+    console.warn(
+      kleur.dim(
+        "VIBELINT_ESLINT_CMD lints the working tree, not what's staged. Partially staged files get linted with their unstaged changes."
+      )
+    )
+  }
+  return ESLINT_CMD ? runESLintCli(ESLINT_CMD, options.files) : runESLintApi(options)
+}
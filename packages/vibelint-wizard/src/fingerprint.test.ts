@@ -0,0 +1,132 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import {
+  computeLegacyCodeHash,
+  createFingerprint,
+  matchFingerprints,
+  migrateLegacyFingerprints,
+  type ApprovedWarning,
+  type WarningFingerprint
+} from "./fingerprint.js"
+
+const MESSAGE = "Expected '===' and instead saw '=='."
+
+const SOURCE = [
+  "function load(data) {",
+  "  const parsed = parse(data)",
+  "  const fallback = {}",
+  "  if (parsed == null) return fallback",
+  "  const result = { ...parsed }",
+  "  result.loaded = true",
+  "  return result",
+  "}"
+]
+
+function fingerprintAt(lines: string[], line: number, severity: number = 1): WarningFingerprint {
+  return createFingerprint("src/load.js", "eqeqeq", MESSAGE, lines, line, severity)
+}
+
+function approve(fingerprint: WarningFingerprint, count: number = 1): ApprovedWarning {
+  return { ...fingerprint, count }
+}
+
+describe("matchFingerprints", () => {
+  it("matches the same issue in the same place", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4))
+
+    assert.deepEqual(matchFingerprints([approved], [fingerprintAt(SOURCE, 4)]), [approved])
+  })
+
+  it("re-attaches an approval to a line whose surroundings changed in the same function", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4))
+    const edited = [...SOURCE.slice(0, 3), "  // nobody knows why", ...SOURCE.slice(3)]
+    const current = fingerprintAt(edited, 5)
+    assert.notEqual(current.contextHash, approved.contextHash)
+
+    assert.deepEqual(matchFingerprints([approved], [current]), [approved])
+  })
+
+  it("re-attaches an approval to a line whose function was renamed", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4))
+    const current = fingerprintAt(["function read(data) {", ...SOURCE.slice(1)], 4)
+    assert.notEqual(current.scope, approved.scope)
+    assert.equal(current.contextHash, approved.contextHash)
+
+    assert.deepEqual(matchFingerprints([approved], [current]), [approved])
+  })
+
+  it("doesn't match a line that changed", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4))
+    const edited = [...SOURCE.slice(0, 3), "  if (parsed == undefined) return fallback", ...SOURCE.slice(4)]
+
+    assert.deepEqual(matchFingerprints([approved], [fingerprintAt(edited, 4)]), [undefined])
+  })
+
+  it("uses an approval at most count times", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4), 2)
+    const current = fingerprintAt(SOURCE, 4)
+
+    assert.deepEqual(matchFingerprints([approved], [current, current, current]), [approved, approved, undefined])
+  })
+
+  it("doesn't let an approved warning cover the same issue once it's an error", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4, 1))
+
+    assert.deepEqual(matchFingerprints([approved], [fingerprintAt(SOURCE, 4, 2)]), [undefined])
+  })
+
+  it("lets an approved error cover the same issue once it's a warning", () => {
+    const approved = approve(fingerprintAt(SOURCE, 4, 2))
+
+    assert.deepEqual(matchFingerprints([approved], [fingerprintAt(SOURCE, 4, 1)]), [approved])
+  })
+
+  it("prefers the exact match over a fuzzy one", () => {
+    const edited = [...SOURCE.slice(0, 3), "  // nobody knows why", ...SOURCE.slice(3)]
+    const moved = approve(fingerprintAt(edited, 5))
+    const exact = approve(fingerprintAt(SOURCE, 4))
+
+    assert.deepEqual(matchFingerprints([moved, exact], [fingerprintAt(SOURCE, 4)]), [exact])
+  })
+})
+
+describe("migrateLegacyFingerprints", () => {
+  const legacy = {
+    file: "src/load.js",
+    ruleId: "eqeqeq",
+    codeHash: computeLegacyCodeHash(SOURCE[3]),
+    message: MESSAGE
+  }
+
+  it("turns a v1.1 approval into the fingerprint of its line, covering errors", () => {
+    assert.deepEqual(
+      migrateLegacyFingerprints([legacy], () => SOURCE),
+      [{ ...fingerprintAt(SOURCE, 4, 2), count: 1 }]
+    )
+  })
+
+  it("counts every identical line, like v1.1 covered them all", () => {
+    const twice = [...SOURCE, "", "function again(parsed) {", SOURCE[3], "}"]
+
+    const migrated = migrateLegacyFingerprints([legacy, legacy], () => twice)
+    assert.deepEqual(
+      migrated.map(({ scope, count }) => ({ scope, count })),
+      [
+        { scope: "load", count: 1 },
+        { scope: "again", count: 1 }
+      ]
+    )
+  })
+
+  it("drops approvals whose file or line is gone", () => {
+    assert.deepEqual(
+      migrateLegacyFingerprints([legacy], () => null),
+      []
+    )
+    assert.deepEqual(
+      migrateLegacyFingerprints([legacy], () => SOURCE.filter((line) => line !== SOURCE[3])),
+      []
+    )
+  })
+})
@@ -0,0 +1,112 @@
+import { spawnSync } from "child_process"
+import { relative, resolve } from "path"
+
+let cachedUserEmail: string | undefined | null = null
+
+/**
+ * `git config user.email`, or undefined if git isn't around or nobody configured it
+ */
+export function getGitUserEmail(): string | undefined {
+  if (cachedUserEmail === null) {
+    const result = spawnSync("git", ["config", "user.email"], { encoding: "utf-8", windowsHide: true })
+    const email = result.status === 0 ? result.stdout.trim() : ""
+    cachedUserEmail = email || undefined
+  }
+  return cachedUserEmail
+}
+
+function git(args: string[]): string {
+  const result = spawnSync("git", args, { encoding: "utf-8", windowsHide: true, maxBuffer: 64 * 1024 * 1024 })
+  if (result.status !== 0) {
+    throw new Error(`git ${args.join(" ")} failed: ${(result.stderr || result.error?.message || "").trim()}`)
+  }
+  return result.stdout
+}
+
+function toAbsolutePaths(output: string): string[] {
+  const topLevel = git(["rev-parse", "--show-toplevel"]).trim()
+  return output
+    .split("\0")
+    .filter(Boolean)
+    .map((file) => resolve(topLevel, file))
+}
+
+/**
+ * Files in `git diff --cached`, as absolute paths. Deleted files included, their approvals are in play too.
+ */
+export function getStagedFiles(): string[] {
+  return toAbsolutePaths(git(["diff", "--cached", "--name-only", "--no-renames", "-z"]))
+}
+
+/**
+ * The staged content of `files` (absolute paths), which is what gets committed, unstaged changes or not.
+ * Files deleted from the index have none.
+ */
+export function readStagedContents(files: string[]): Map<string, string> {
+  const contents = new Map<string, string>()
+  for (const file of files) {
+    try {
+      contents.set(file, git(["show", `:./${relative(process.cwd(), file).replace(/\\/g, "/")}`]))
+    } catch {
+      // Deleted, nothing to lint
+    }
+  }
+  return contents
+}
+
+/**
+ * Files changed between `ref` and the working tree, plus untracked ones, as absolute paths. Deleted files included.
+ */
+export function getFilesChangedSince(ref: string): string[] {
+  const changed = toAbsolutePaths(git(["diff", "--name-only", "--no-renames", "-z", ref, "--"]))
+  const untracked = toAbsolutePaths(git(["ls-files", "--others", "--exclude-standard", "--full-name", "-z"]))
+  return [...new Set([...changed, ...untracked])]
+}
+
+/**
+ * Tracked and untracked (but not ignored) files under the current directory, as absolute paths.
+ * Undefined when we're not in a git repository.
+ */
+export function getProjectFiles(): string[] | undefined {
+  try {
+    return toAbsolutePaths(git(["ls-files", "--cached", "--others", "--exclude-standard", "--full-name", "-z"]))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * What `--staged` / `--since` narrowed a run down to
+ */
+export interface ChangedFiles {
+  files: string[]
+  description: string
+  // What to lint instead of the working tree, by absolute path: the staged content for `--staged`
+  contents?: Map<string, string>
+}
+
+export interface FileRevision {
+  commit: string
+  // Committer date, ISO 8601
+  date: string
+}
+
+/**
+ * Commits that touched `file` (absolute path), newest first. Throws outside a git repository.
+ */
+export function getFileHistory(file: string): FileRevision[] {
+  return git(["log", "--format=%H %cI", "--", file])
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [commit, date] = line.split(" ")
+      return { commit, date }
+    })
+}
+
+/**
+ * `file` (absolute path) as it was in `commit`. Throws if it didn't exist there, e.g. the commit deleted it.
+ */
+export function readFileAtCommit(commit: string, file: string): string {
+  return git(["show", `${commit}:./${relative(process.cwd(), file).replace(/\\/g, "/")}`])
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+
+import type { CachedApproval, StoredCacheFile } from "./cache.js"
+import { mergeCaches } from "./merge.js"
+
+function approval(file: string, count: number = 1, metadata: Partial<CachedApproval> = {}): CachedApproval {
+  return {
+    file,
+    ruleId: "eqeqeq",
+    message: "Expected '===' and instead saw '=='.",
+    codeHash: "abc",
+    contextHash: "def",
+    scope: "load",
+    severity: 1,
+    count,
+    ...metadata
+  }
+}
+
+function cacheWith(approvals: CachedApproval[], eslintConfigHash: string = "config"): StoredCacheFile {
+  return { version: "2.6", eslintConfigHash, approvedWarnings: approvals }
+}
+
+describe("mergeCaches", () => {
+  it("keeps what both sides approved, sorted", () => {
+    const merged = mergeCaches(cacheWith([]), cacheWith([approval("src/b.js")]), cacheWith([approval("src/a.js")]))
+
+    assert.deepEqual(merged.approvedWarnings, [approval("src/a.js"), approval("src/b.js")])
+  })
+
+  it("counts the same approval on both sides once", () => {
+    const merged = mergeCaches(cacheWith([]), cacheWith([approval("src/a.js")]), cacheWith([approval("src/a.js")]))
+
+    assert.deepEqual(merged.approvedWarnings, [approval("src/a.js")])
+  })
+
+  it("adds up more instances approved on one side and fewer left on the other", () => {
+    const base = cacheWith([approval("src/a.js", 2)])
+
+    const merged = mergeCaches(base, cacheWith([approval("src/a.js", 3)]), cacheWith([approval("src/a.js", 1)]))
+    assert.deepEqual(merged.approvedWarnings, [approval("src/a.js", 2)])
+  })
+
+  it("drops an approval pruned on one side and untouched on the other", () => {
+    const base = cacheWith([approval("src/a.js"), approval("src/b.js")])
+
+    const merged = mergeCaches(base, cacheWith([approval("src/b.js")]), base)
+    assert.deepEqual(merged.approvedWarnings, [approval("src/b.js")])
+  })
+
+  it("keeps the reason of the side that changed it, the more recent one if both did", () => {
+    const base = cacheWith([approval("src/a.js")])
+    const ours = approval("src/a.js", 1, { reason: "legacy", approvedAt: "2026-01-02T00:00:00.000Z" })
+    const theirs = approval("src/a.js", 1, { reason: "vendored", approvedAt: "2026-01-03T00:00:00.000Z" })
+
+    assert.deepEqual(mergeCaches(base, cacheWith([ours]), base).approvedWarnings, [ours])
+    assert.deepEqual(mergeCaches(base, cacheWith([ours]), cacheWith([theirs])).approvedWarnings, [theirs])
+  })
+
+  it("takes the config change from the side that accepted one", () => {
+    const base = cacheWith([], "old")
+
+    assert.equal(mergeCaches(base, base, cacheWith([], "new")).eslintConfigHash, "new")
+    assert.equal(mergeCaches(base, cacheWith([], "new"), base).eslintConfigHash, "new")
+    assert.equal(mergeCaches(base, cacheWith([], "ours"), cacheWith([], "theirs")).eslintConfigHash, "old")
+  })
+})
@@ -0,0 +1,146 @@
+import { spawnSync } from "child_process"
+import { readFile, writeFile } from "fs/promises"
+
+import kleur from "kleur"
+
+import {
+  compareApprovals,
+  parseCacheFile,
+  pickApprovalMetadata,
+  serializeCache,
+  type CachedApproval,
+  type StoredCacheFile
+} from "./cache.js"
+import { fingerprintKey } from "./fingerprint.js"
+import { loadPolicy } from "./policy.js"
+
+/**
+ * The files git hands a merge driver: `%O`, `%A` (the result goes here) and `%B`, plus `%P` for messages
+ */
+export interface MergeFiles {
+  base: string
+  ours: string
+  theirs: string
+  path?: string
+}
+
+async function readCacheVersion(file: string): Promise<StoredCacheFile | undefined> {
+  const content = await readFile(file, "utf-8")
+  // Git passes an empty file when there's no such version, e.g. no common ancestor
+  return content.trim() ? parseCacheFile(content) : undefined
+}
+
+/**
+ * Both sides doing the same thing (approving the same issue, pruning the same approval) counts once,
+ * otherwise both changes apply
+ */
+function mergeCount(base: number, ours: number, theirs: number): number {
+  if (ours >= base && theirs >= base) return Math.max(ours, theirs)
+  if (ours <= base && theirs <= base) return Math.min(ours, theirs)
+  return Math.max(0, ours + theirs - base)
+}
+
+function metadataChanged(approval: CachedApproval, base: CachedApproval | undefined): boolean {
+  return !base || JSON.stringify(pickApprovalMetadata(approval)) !== JSON.stringify(pickApprovalMetadata(base))
+}
+
+/**
+ * Whose author, reason and expiry an approval keeps: the side that changed them, the more recent
+ * approval if both did
+ */
+function pickSide(
+  base: CachedApproval | undefined,
+  ours: CachedApproval | undefined,
+  theirs: CachedApproval | undefined
+): CachedApproval | undefined {
+  const changed = [ours, theirs].filter(
+    (approval): approval is CachedApproval => approval !== undefined && metadataChanged(approval, base)
+  )
+  if (changed.length === 0) return ours ?? theirs
+  const approvedAt = (approval: CachedApproval) => (approval.approvedAt ? Date.parse(approval.approvedAt) : 0)
+  return changed.reduce((latest, approval) => (approvedAt(approval) > approvedAt(latest) ? approval : latest))
+}
+
+function byFingerprint(cache: StoredCacheFile | undefined): Map<string, CachedApproval> {
+  const approvals = new Map<string, CachedApproval>()
+  for (const approved of cache?.approvedWarnings ?? []) {
+    const key = fingerprintKey(approved)
+    const existing = approvals.get(key)
+    // Hand-edited or pre-dedupe caches can list a fingerprint twice
+    approvals.set(key, existing ? { ...existing, count: existing.count + approved.count } : approved)
+  }
+  return approvals
+}
+
+/**
+ * Three-way union of two caches. Approvals merge per fingerprint, deduplicated and sorted.
+ * Approvals pruned on one side and untouched on the other are gone.
+ */
+export function mergeCaches(
+  base: StoredCacheFile | undefined,
+  ours: StoredCacheFile,
+  theirs: StoredCacheFile
+): StoredCacheFile {
+  const baseApprovals = byFingerprint(base)
+  const ourApprovals = byFingerprint(ours)
+  const theirApprovals = byFingerprint(theirs)
+
+  const approvedWarnings: CachedApproval[] = []
+  for (const key of new Set([...baseApprovals.keys(), ...ourApprovals.keys(), ...theirApprovals.keys()])) {
+    const baseApproval = baseApprovals.get(key)
+    const ourApproval = ourApprovals.get(key)
+    const theirApproval = theirApprovals.get(key)
+    const count = mergeCount(baseApproval?.count ?? 0, ourApproval?.count ?? 0, theirApproval?.count ?? 0)
+    const side = pickSide(baseApproval, ourApproval, theirApproval)
+    if (count > 0 && side) {
+      approvedWarnings.push({ ...side, count })
+    }
+  }
+  approvedWarnings.sort(compareApprovals)
+
+  // One side accepting a config change wins. Both accepting different ones: keep the common ancestor's,
+  // so the next wizard run shows the diff against it and somebody accepts the config the merge ended up with.
+  let config: StoredCacheFile = ours
+  if (ours.eslintConfigHash === base?.eslintConfigHash) {
+    config = theirs
+  } else if (theirs.eslintConfigHash !== base?.eslintConfigHash && theirs.eslintConfigHash !== ours.eslintConfigHash) {
+    config = base ?? ours
+  }
+
+  return {
+    version: ours.version,
+    eslintConfigHash: config.eslintConfigHash,
+    ...(config.eslintConfig ? { eslintConfig: config.eslintConfig } : {}),
+    approvedWarnings
+  }
+}
+
+/**
+ * `vibelint-wizard merge-driver %O %A %B %P`, registered in .gitattributes. Writes the merge to `%A`.
+ * Whatever we can't merge (conflict markers from an earlier merge, caches from before v2) goes to
+ * git's own line-by-line merge. Returns the exit code git expects: 0 when merged cleanly.
+ */
+export async function runMergeDriver({ base, ours, theirs, path = ours }: MergeFiles): Promise<number> {
+  try {
+    const ourCache = await readCacheVersion(ours)
+    const theirCache = await readCacheVersion(theirs)
+    if (!ourCache || !theirCache) {
+      throw new Error("one side is empty")
+    }
+    const merged = mergeCaches(await readCacheVersion(base), ourCache, theirCache)
+    await writeFile(ours, serializeCache(merged, loadPolicy().cache.groupByFile), "utf-8")
+    console.error(kleur.dim(`vibelint: merged ${path} (${merged.approvedWarnings.length} approval(s))`))
+    return 0
+  } catch (error) {
+    console.error(
+      kleur.yellow(
+        `vibelint: couldn't merge ${path} (${error instanceof Error ? error.message : error}), leaving it to git. Good luck.`
+      )
+    )
+    const result = spawnSync("git", ["merge-file", "-L", "ours", "-L", "base", "-L", "theirs", ours, base, theirs], {
+      stdio: "inherit",
+      windowsHide: true
+    })
+    return result.status === 0 ? 0 : 1
+  }
+}
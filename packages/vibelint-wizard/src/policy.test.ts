@@ -0,0 +1,64 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { join, resolve } from "path"
+
+import { parsePolicy, resolveRulePolicy } from "./policy.js"
+
+const DIR = resolve("project")
+
+describe("resolveRulePolicy", () => {
+  const policy = parsePolicy(
+    {
+      rules: { "no-console": "auto-approve", "no-eval": "forbidden" },
+      overrides: [
+        { files: ["scripts/**"], rules: { "no-eval": "review" } },
+        { files: ["scripts/release/**"], rules: { "no-eval": "forbidden", "no-console": "review" } },
+        { files: ["legacy/**"], rules: {}, approveErrors: false }
+      ]
+    },
+    ".vibelintrc.json",
+    DIR
+  )
+
+  it("needs a review for rules nobody mentioned", () => {
+    assert.equal(resolveRulePolicy(policy, "eqeqeq", join(DIR, "src/load.js"), 1), "review")
+  })
+
+  it("uses the policy of the rule", () => {
+    assert.equal(resolveRulePolicy(policy, "no-console", join(DIR, "src/load.js"), 1), "auto-approve")
+    assert.equal(resolveRulePolicy(policy, "no-eval", join(DIR, "src/load.js"), 1), "forbidden")
+  })
+
+  it("applies overrides matching the file relative to the config, later ones winning", () => {
+    assert.equal(resolveRulePolicy(policy, "no-eval", join(DIR, "scripts/build.js"), 1), "review")
+    assert.equal(resolveRulePolicy(policy, "no-eval", join(DIR, "scripts/release/tag.js"), 1), "forbidden")
+    assert.equal(resolveRulePolicy(policy, "no-console", join(DIR, "scripts/release/tag.js"), 1), "review")
+    assert.equal(resolveRulePolicy(policy, "no-eval", join(DIR, "src/scripts/build.js"), 1), "forbidden")
+  })
+
+  it("forbids errors where approveErrors is off, whatever the rule says", () => {
+    assert.equal(resolveRulePolicy(policy, "no-console", join(DIR, "legacy/old.js"), 2), "forbidden")
+    assert.equal(resolveRulePolicy(policy, "no-console", join(DIR, "legacy/old.js"), 1), "auto-approve")
+    assert.equal(resolveRulePolicy(policy, "no-console", join(DIR, "src/load.js"), 2), "auto-approve")
+  })
+
+  it("lets an override approve errors again", () => {
+    const strict = parsePolicy(
+      { approveErrors: false, overrides: [{ files: ["vendor/**"], rules: {}, approveErrors: true }] },
+      ".vibelintrc.json",
+      DIR
+    )
+
+    assert.equal(resolveRulePolicy(strict, "eqeqeq", join(DIR, "src/load.js"), 2), "forbidden")
+    assert.equal(resolveRulePolicy(strict, "eqeqeq", join(DIR, "vendor/lib.js"), 2), "review")
+  })
+})
+
+describe("parsePolicy", () => {
+  it("refuses rule policies it doesn't know", () => {
+    assert.throws(
+      () => parsePolicy({ rules: { eqeqeq: "ignore" } }, ".vibelintrc.json", DIR),
+      /rule "eqeqeq" must be one of forbidden, auto-approve, review/
+    )
+  })
+})
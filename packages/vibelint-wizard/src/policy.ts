@@ -0,0 +1,242 @@
+// NOTE: this file is mirrored in packages/eslint-plugin-vibelint/src/policy.ts.
+// The plugin and the wizard MUST agree on what may be approved, so change both or neither.
+import { existsSync, readFileSync } from "fs"
+import { createRequire } from "module"
+import { join, relative } from "path"
+
+import { findUp } from "./location.js"
+
+// First match wins. TS configs need a Node version that can load TypeScript (22.18+),
+// everyone else gets to write JSON.
+export const POLICY_FILES = [
+  "vibelint.config.ts",
+  "vibelint.config.mts",
+  "vibelint.config.js",
+  "vibelint.config.mjs",
+  "vibelint.config.cjs",
+  "vibelint.config.json"
+]
+
+/**
+ * - "forbidden": can never be approved, the plugin ignores cached approvals for it
+ * - "auto-approve": approved without asking, no cache entry needed
+ * - "review": the default, somebody has to look at it
+ */
+export type RulePolicy = "forbidden" | "auto-approve" | "review"
+
+const RULE_POLICIES: readonly string[] = ["forbidden", "auto-approve", "review"]
+
+export interface PolicyOverride {
+  files: string[]
+  rules: Record<string, RulePolicy>
+  approveErrors?: boolean
+}
+
+export interface CacheSettings {
+  // Where the cache lives, relative to the config file
+  file?: string
+  // One cache per workspace package (nearest package.json) instead of one for the whole project
+  perPackage: boolean
+  // Write approvals keyed by file ({ "src/a.ts": [...] }) instead of one flat list
+  groupByFile: boolean
+}
+
+export interface EslintSuppressionsSettings {
+  // ESLint's bulk-suppressions file, relative to the config file
+  file: string
+  // Leave errors listed in it to ESLint instead of suppressing them ourselves
+  defer: boolean
+}
+
+export interface VibelintPolicy {
+  // Directory of the config file, globs and `cache.file` are relative to it
+  dir: string
+  rules: Record<string, RulePolicy>
+  // false: errors (severity 2) are forbidden whatever `rules` says, only warnings can be approved
+  approveErrors: boolean
+  // Applied in order on top of `rules`, later overrides win (like ESLint flat config)
+  overrides: PolicyOverride[]
+  cache: CacheSettings
+  eslintSuppressions: EslintSuppressionsSettings
+}
+
+const DEFAULT_CACHE_SETTINGS: CacheSettings = { perPackage: false, groupByFile: false }
+const DEFAULT_ESLINT_SUPPRESSIONS: EslintSuppressionsSettings = { file: "eslint-suppressions.json", defer: false }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isRulePolicy(value: unknown): value is RulePolicy {
+  return typeof value === "string" && RULE_POLICIES.includes(value)
+}
+
+function parseRules(value: unknown, where: string): Record<string, RulePolicy> {
+  if (value === undefined) return {}
+  if (!isRecord(value)) {
+    throw new Error(`${where}: "rules" must be an object of rule id → ${RULE_POLICIES.join(" | ")}`)
+  }
+  const rules: Record<string, RulePolicy> = {}
+  for (const [ruleId, policy] of Object.entries(value)) {
+    if (!isRulePolicy(policy)) {
+      throw new Error(
+        `${where}: rule "${ruleId}" must be one of ${RULE_POLICIES.join(", ")}, got ${JSON.stringify(policy)}`
+      )
+    }
+    rules[ruleId] = policy
+  }
+  return rules
+}
+
+function parseApproveErrors(value: unknown, where: string): boolean | undefined {
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new Error(`${where}: "approveErrors" must be true or false`)
+  }
+  return value
+}
+
+function parseCacheSettings(value: unknown, where: string): CacheSettings {
+  if (value === undefined) return DEFAULT_CACHE_SETTINGS
+  if (
+    !isRecord(value) ||
+    (value.file !== undefined && typeof value.file !== "string") ||
+    (value.perPackage !== undefined && typeof value.perPackage !== "boolean") ||
+    (value.groupByFile !== undefined && typeof value.groupByFile !== "boolean")
+  ) {
+    throw new Error(`${where}: "cache" must look like { file?: string, perPackage?: boolean, groupByFile?: boolean }`)
+  }
+  return { file: value.file, perPackage: value.perPackage ?? false, groupByFile: value.groupByFile ?? false }
+}
+
+function parseEslintSuppressions(value: unknown, where: string): EslintSuppressionsSettings {
+  if (value === undefined) return DEFAULT_ESLINT_SUPPRESSIONS
+  if (
+    !isRecord(value) ||
+    (value.file !== undefined && typeof value.file !== "string") ||
+    (value.defer !== undefined && typeof value.defer !== "boolean")
+  ) {
+    throw new Error(`${where}: "eslintSuppressions" must look like { file?: string, defer?: boolean }`)
+  }
+  return { file: value.file ?? DEFAULT_ESLINT_SUPPRESSIONS.file, defer: value.defer ?? false }
+}
+
+export function parsePolicy(value: unknown, source: string, dir: string): VibelintPolicy {
+  if (!isRecord(value)) {
+    throw new Error(`${source}: expected an object with "rules" and/or "overrides"`)
+  }
+  const overrides = value.overrides ?? []
+  if (!Array.isArray(overrides)) {
+    throw new Error(`${source}: "overrides" must be an array`)
+  }
+  return {
+    dir,
+    rules: parseRules(value.rules, source),
+    approveErrors: parseApproveErrors(value.approveErrors, source) ?? true,
+    overrides: overrides.map((override: unknown, idx) => {
+      const where = `${source} overrides[${idx}]`
+      if (
+        !isRecord(override) ||
+        !Array.isArray(override.files) ||
+        !override.files.every((glob): glob is string => typeof glob === "string")
+      ) {
+        throw new Error(`${where}: expected { files: string[], rules: {...} }`)
+      }
+      return {
+        files: override.files,
+        rules: parseRules(override.rules, where),
+        approveErrors: parseApproveErrors(override.approveErrors, where)
+      }
+    }),
+    cache: parseCacheSettings(value.cache, source),
+    eslintSuppressions: parseEslintSuppressions(value.eslintSuppressions, source)
+  }
+}
+
+function findPolicyFile(dir: string): string | undefined {
+  return POLICY_FILES.find((name) => existsSync(join(dir, name)))
+}
+
+/**
+ * Load the nearest policy file from `startDir` upwards. No file means everything needs review.
+ * A broken policy file throws: silently ignoring it would let forbidden rules through.
+ */
+export function loadPolicy(startDir: string = process.cwd()): VibelintPolicy {
+  const dir = findUp(startDir, (candidate) => findPolicyFile(candidate) !== undefined)
+  const fileName = dir ? findPolicyFile(dir) : undefined
+  if (!dir || !fileName) {
+    return {
+      dir: startDir,
+      rules: {},
+      approveErrors: true,
+      overrides: [],
+      cache: DEFAULT_CACHE_SETTINGS,
+      eslintSuppressions: DEFAULT_ESLINT_SUPPRESSIONS
+    }
+  }
+
+  const filePath = join(dir, fileName)
+  let raw: unknown
+  try {
+    if (fileName.endsWith(".json")) {
+      raw = JSON.parse(readFileSync(filePath, "utf-8"))
+    } else {
+      const loaded: unknown = createRequire(import.meta.url)(filePath)
+      raw = isRecord(loaded) && "default" in loaded ? loaded.default : loaded
+    }
+  } catch (error) {
+    throw new Error(`Could not load ${fileName}: ${error instanceof Error ? error.message : error}`)
+  }
+  return parsePolicy(raw, fileName, dir)
+}
+
+/**
+ * Minimal glob support: `**`, `*`, `?` and `{a,b}`. Globs match the whole path relative to the config file.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = ""
+  let braceDepth = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === "*" && glob[i + 1] === "*") {
+      const followedBySlash = glob[i + 2] === "/"
+      pattern += followedBySlash ? "(?:.*/)?" : ".*"
+      i += followedBySlash ? 2 : 1
+    } else if (char === "*") {
+      pattern += "[^/]*"
+    } else if (char === "?") {
+      pattern += "[^/]"
+    } else if (char === "{") {
+      braceDepth++
+      pattern += "(?:"
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--
+      pattern += ")"
+    } else if (char === "," && braceDepth > 0) {
+      pattern += "|"
+    } else {
+      pattern += char.replace(/[.+^$(){}|[\]\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+export function matchesGlob(file: string, glob: string): boolean {
+  return globToRegExp(glob.replace(/^\.\//, "")).test(file)
+}
+
+export function resolveRulePolicy(
+  policy: VibelintPolicy,
+  ruleId: string,
+  filePath: string,
+  severity: number
+): RulePolicy {
+  const file = relative(policy.dir, filePath).replace(/\\/g, "/")
+  let resolved = policy.rules[ruleId] ?? "review"
+  let approveErrors = policy.approveErrors
+  for (const override of policy.overrides) {
+    if (!override.files.some((glob) => matchesGlob(file, glob))) continue
+    resolved = override.rules[ruleId] ?? resolved
+    approveErrors = override.approveErrors ?? approveErrors
+  }
+  return severity === 2 && !approveErrors ? "forbidden" : resolved
+}
@@ -0,0 +1,94 @@
+import kleur from "kleur"
+
+import { countApprovals, loadCache, saveCache } from "./cache.js"
+import { resolveEslintConfig } from "./config.js"
+import { runESLint, type LintOptions } from "./eslint.js"
+import type { ApprovedWarning } from "./fingerprint.js"
+import { loadPolicy } from "./policy.js"
+import { timed } from "./timings.js"
+import { collectWarnings, pruneStaleApprovals, reconcileApprovals } from "./warnings.js"
+
+function countBy(approvals: ApprovedWarning[], key: (approved: ApprovedWarning) => string): Array<[string, number]> {
+  const counts = new Map<string, number>()
+  for (const approved of approvals) {
+    counts.set(key(approved), (counts.get(key(approved)) ?? 0) + approved.count)
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+}
+
+function printBreakdown(title: string, rows: Array<[string, number]>): void {
+  console.log(`\n${kleur.bold(title)}`)
+  const width = Math.max(...rows.map(([, count]) => count.toString().length))
+  for (const [name, count] of rows) {
+    console.log(`  ${kleur.yellow(count.toString().padStart(width, " "))}  ${kleur.cyan(name)}`)
+  }
+}
+
+/**
+ * Drop approvals that no longer match any warning, without walking through new warnings.
+ * Approvals for code that just moved are re-attached, not dropped.
+ */
+export async function pruneCache(dryRun: boolean, lintOptions: LintOptions): Promise<void> {
+  const currentConfig = await timed("config", () => resolveEslintConfig(lintOptions.cache))
+  const cache = await timed("cache", () => loadCache(currentConfig))
+
+  if (cache.eslintConfigHash !== currentConfig.hash) {
+    console.warn(
+      kleur.yellow(
+        "⚠️  Your ESLint config changed since the cache was last updated. Pruning against the NEW config (rules you turned off take their approvals with them)."
+      )
+    )
+  }
+
+  console.log(kleur.blue("Running ESLint to find out which approvals are dead weight..."))
+  const eslintResults = await timed("eslint", () => runESLint(lintOptions))
+  const warnings = await timed("fingerprints", () => collectWarnings(eslintResults))
+
+  const approvedBefore = countApprovals(cache.approvedWarnings)
+  const { reattachedCount, expiredCount, forbiddenCount } = await timed("matching", () =>
+    reconcileApprovals(cache, warnings, loadPolicy())
+  )
+  const pruned = pruneStaleApprovals(cache, warnings)
+  const prunedCount = countApprovals(pruned)
+
+  if (reattachedCount > 0) {
+    console.log(kleur.dim(`Re-attached ${reattachedCount} approval(s) to code that moved around.`))
+  }
+  if (expiredCount > 0) {
+    console.log(kleur.yellow(`⏰ Dropped ${expiredCount} expired approval(s). Their issues will show up as new ones.`))
+  }
+  if (forbiddenCount > 0) {
+    console.log(
+      kleur.red(`🚫 Dropped ${forbiddenCount} approval(s) for rules vibelint.config forbids approving. Nice try.`)
+    )
+  }
+
+  if (prunedCount === 0) {
+    console.log(kleur.green(`✓ Every approval still matches something. Nothing to prune.`))
+    if ((reattachedCount > 0 || expiredCount > 0 || forbiddenCount > 0) && !dryRun) {
+      await saveCache(cache)
+    }
+    return
+  }
+
+  printBreakdown(
+    "Stale approvals per rule:",
+    countBy(pruned, (approved) => approved.ruleId)
+  )
+  printBreakdown(
+    "Stale approvals per file:",
+    countBy(pruned, (approved) => approved.file)
+  )
+
+  if (dryRun) {
+    console.log(
+      `\n${kleur.yellow().bold(`Dry run: would remove ${prunedCount} of ${approvedBefore} approval(s).`)} ${kleur.dim("Nothing was written.")}`
+    )
+    return
+  }
+
+  await saveCache(cache)
+  console.log(
+    `\n${kleur.green().bold(`✓ Removed ${prunedCount} of ${approvedBefore} approval(s).`)} ${kleur.dim(`${countApprovals(cache.approvedWarnings)} left in the graveyard.`)}`
+  )
+}
@@ -0,0 +1,347 @@
+import { readFile } from "fs/promises"
+import { dirname, relative } from "path"
+
+import kleur from "kleur"
+
+import {
+  countApprovals,
+  currentCacheFiles,
+  isExpired,
+  parseApprovalsForCounting,
+  toProjectApprovals,
+  type CountedApproval
+} from "./cache.js"
+import { getFileHistory, readFileAtCommit, type FileRevision } from "./git.js"
+import { timed } from "./timings.js"
+
+export type ReportFormat = "text" | "json" | "markdown" | "html"
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ["text", "json", "markdown", "html"]
+
+export interface DebtCount {
+  name: string
+  // Approved occurrences: an approval with `count: 3` is three
+  approved: number
+}
+
+export interface DebtMonth {
+  // YYYY-MM
+  month: string
+  // Approved occurrences at the end of the month, or right now for the current one
+  approved: number
+}
+
+export interface DebtReport {
+  generatedAt: string
+  approved: number
+  errors: number
+  warnings: number
+  // Approved before caches recorded severity (v1.1, anything before 2.4): could be either
+  unknownSeverity: number
+  expired: number
+  byRule: DebtCount[]
+  byDirectory: DebtCount[]
+  byAuthor: DebtCount[]
+  overTime: DebtMonth[]
+}
+
+// Approvals from before v2.2 don't know who approved them
+const UNKNOWN_AUTHOR = "(unknown)"
+
+const BAR_WIDTH = 40
+
+function countBy(approvals: CountedApproval[], key: (approved: CountedApproval) => string): DebtCount[] {
+  const counts = new Map<string, number>()
+  for (const approved of approvals) {
+    counts.set(key(approved), (counts.get(key(approved)) ?? 0) + approved.count)
+  }
+  return [...counts.entries()]
+    .map(([name, approved]) => ({ name, approved }))
+    .sort((a, b) => b.approved - a.approved || a.name.localeCompare(b.name))
+}
+
+async function readCurrentApprovals(cacheFiles: string[]): Promise<CountedApproval[]> {
+  const approvals = await Promise.all(
+    cacheFiles.map(async (cacheFile) => {
+      let content: string
+      try {
+        content = await readFile(cacheFile, "utf-8")
+      } catch {
+        return []
+      }
+      try {
+        return toProjectApprovals(parseApprovalsForCounting(content), cacheFile)
+      } catch {
+        // stderr, the report itself may be going to a file
+        console.warn(
+          kleur.yellow(
+            `⚠ Can't make sense of ${relative(process.cwd(), cacheFile)} (conflict markers?), its approvals aren't in this report.`
+          )
+        )
+        return []
+      }
+    })
+  )
+  return approvals.flat()
+}
+
+function monthOf(time: number): string {
+  const date = new Date(time)
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, "0")}`
+}
+
+function nextMonth(month: string): string {
+  const [year, monthNumber] = month.split("-").map(Number)
+  return monthNumber === 12 ? `${year + 1}-01` : `${year}-${(monthNumber + 1).toString().padStart(2, "0")}`
+}
+
+/**
+ * Approved occurrences at the end of every month, from the git history of the cache files, the current month
+ * from the working tree. Only commits count, not what happened on branches in between. Empty outside git.
+ */
+function countOverTime(cacheFiles: string[], approvedNow: number): DebtMonth[] {
+  const revisions: Array<{ time: number; cacheFile: string; approved: number }> = []
+  let unreadable = 0
+  for (const cacheFile of cacheFiles) {
+    let history: FileRevision[]
+    try {
+      history = getFileHistory(cacheFile)
+    } catch {
+      return []
+    }
+    for (const { commit, date } of history) {
+      let content: string
+      try {
+        content = readFileAtCommit(commit, cacheFile)
+      } catch {
+        // The commit deleted it
+        revisions.push({ time: Date.parse(date), cacheFile, approved: 0 })
+        continue
+      }
+      try {
+        revisions.push({
+          time: Date.parse(date),
+          cacheFile,
+          approved: countApprovals(parseApprovalsForCounting(content))
+        })
+      } catch {
+        // Committed with conflict markers, most likely. The month keeps whatever count it had.
+        unreadable++
+      }
+    }
+  }
+  if (unreadable > 0) {
+    console.warn(kleur.dim(`Skipped ${unreadable} revision(s) of the cache nobody can read (conflict markers?).`))
+  }
+  revisions.sort((a, b) => a.time - b.time)
+
+  const latest = new Map<string, number>()
+  const byMonth = new Map<string, number>()
+  for (const { time, cacheFile, approved } of revisions) {
+    latest.set(cacheFile, approved)
+    byMonth.set(
+      monthOf(time),
+      [...latest.values()].reduce((sum, count) => sum + count, 0)
+    )
+  }
+  byMonth.set(monthOf(Date.now()), approvedNow)
+
+  // Months without a commit keep the count they started with
+  const months = [...byMonth.keys()].sort()
+  const overTime: DebtMonth[] = []
+  let approved = 0
+  for (let month = months[0]; month <= months[months.length - 1]; month = nextMonth(month)) {
+    approved = byMonth.get(month) ?? approved
+    overTime.push({ month, approved })
+  }
+  return overTime
+}
+
+/**
+ * How much debt the cache holds, sliced per rule, directory and author, plus how it got there
+ */
+export async function buildDebtReport(): Promise<DebtReport> {
+  const cacheFiles = await currentCacheFiles()
+  const approvals = await timed("cache", () => readCurrentApprovals(cacheFiles))
+  const approved = countApprovals(approvals)
+  return {
+    generatedAt: new Date().toISOString(),
+    approved,
+    errors: countApprovals(approvals.filter((approval) => approval.severity === 2)),
+    warnings: countApprovals(approvals.filter((approval) => approval.severity === 1)),
+    unknownSeverity: countApprovals(approvals.filter((approval) => approval.severity === undefined)),
+    expired: countApprovals(approvals.filter((approval) => isExpired(approval))),
+    byRule: countBy(approvals, (approval) => approval.ruleId),
+    byDirectory: countBy(approvals, (approval) => dirname(approval.file)),
+    byAuthor: countBy(approvals, (approval) => approval.author ?? UNKNOWN_AUTHOR),
+    overTime: await timed("history", () => countOverTime(cacheFiles, approved))
+  }
+}
+
+function share(approved: number, total: number): string {
+  return total === 0 ? "0%" : `${Math.round((approved / total) * 100)}%`
+}
+
+function formatChange(approved: number, previous: number | undefined): string {
+  if (previous === undefined) return ""
+  const change = approved - previous
+  return change > 0 ? `+${change}` : change < 0 ? `${change}` : "±0"
+}
+
+function summaryLine(report: DebtReport): string {
+  const unknown =
+    report.unknownSeverity > 0 ? `, ${report.unknownSeverity} of unknown severity (approved before anybody asked)` : ""
+  return `${report.approved} approved issue(s): ${report.errors} error(s), ${report.warnings} warning(s)${unknown}, ${report.expired} expired`
+}
+
+function breakdowns(report: DebtReport): Array<{ title: string; column: string; rows: DebtCount[] }> {
+  return [
+    { title: "Per rule", column: "Rule", rows: report.byRule },
+    { title: "Per directory", column: "Directory", rows: report.byDirectory },
+    { title: "Per author", column: "Author", rows: report.byAuthor }
+  ]
+}
+
+function printReport(report: DebtReport): void {
+  if (report.approved === 0) {
+    console.log(kleur.green("✓ No approved debt. Either you fix everything or nobody ran the wizard yet."))
+    return
+  }
+  console.log(kleur.bold(`💸 ${summaryLine(report)}`))
+
+  for (const { title, rows } of breakdowns(report)) {
+    console.log(`\n${kleur.bold(title)}`)
+    const width = Math.max(...rows.map(({ approved }) => approved.toString().length))
+    for (const { name, approved } of rows) {
+      console.log(
+        `  ${kleur.yellow(approved.toString().padStart(width, " "))}  ${kleur.dim(share(approved, report.approved).padStart(4, " "))}  ${kleur.cyan(name)}`
+      )
+    }
+  }
+
+  console.log(`\n${kleur.bold("Over time")}`)
+  if (report.overTime.length === 0) {
+    console.log(kleur.dim("  No git history, no trend. Commit the cache."))
+    return
+  }
+  const max = Math.max(...report.overTime.map(({ approved }) => approved), 1)
+  const width = max.toString().length
+  report.overTime.forEach(({ month, approved }, idx) => {
+    const bar = "█".repeat(Math.round((approved / max) * BAR_WIDTH))
+    const change = formatChange(approved, report.overTime[idx - 1]?.approved)
+    console.log(
+      `  ${month}  ${kleur.yellow(approved.toString().padStart(width, " "))}  ${kleur.magenta(bar)} ${kleur.dim(change)}`
+    )
+  })
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[|\\`*_[\]<>]/g, "\\$&")
+}
+
+function formatMarkdown(report: DebtReport): string {
+  const lines = ["# Lint debt", "", `${summaryLine(report)}. Generated ${report.generatedAt}.`]
+  for (const { title, column, rows } of breakdowns(report)) {
+    lines.push("", `## ${title}`, "", `| ${column} | Approved | Share |`, "| --- | ---: | ---: |")
+    for (const { name, approved } of rows) {
+      lines.push(`| ${escapeMarkdown(name)} | ${approved} | ${share(approved, report.approved)} |`)
+    }
+  }
+  lines.push("", "## Over time", "")
+  if (report.overTime.length === 0) {
+    lines.push("No git history for the cache.")
+  } else {
+    lines.push("| Month | Approved | Change |", "| --- | ---: | ---: |")
+    report.overTime.forEach(({ month, approved }, idx) => {
+      lines.push(`| ${month} | ${approved} | ${formatChange(approved, report.overTime[idx - 1]?.approved)} |`)
+    })
+  }
+  return lines.join("\n")
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+function htmlBar(approved: number, max: number): string {
+  return `<div class="bar" style="width: ${max === 0 ? 0 : Math.round((approved / max) * 100)}%"></div>`
+}
+
+function formatHtml(report: DebtReport): string {
+  const sections = breakdowns(report).map(({ title, column, rows }) => {
+    const max = Math.max(...rows.map(({ approved }) => approved), 0)
+    const body = rows
+      .map(
+        ({ name, approved }) =>
+          `<tr><td>${escapeHtml(name)}</td><td class="num">${approved}</td><td class="num">${share(approved, report.approved)}</td><td class="chart">${htmlBar(approved, max)}</td></tr>`
+      )
+      .join("\n")
+    return `<h2>${title}</h2>
+<table>
+<thead><tr><th>${column}</th><th class="num">Approved</th><th class="num">Share</th><th></th></tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>`
+  })
+
+  const maxOverTime = Math.max(...report.overTime.map(({ approved }) => approved), 0)
+  const overTime =
+    report.overTime.length === 0
+      ? "<p>No git history for the cache.</p>"
+      : `<table>
+<thead><tr><th>Month</th><th class="num">Approved</th><th class="num">Change</th><th></th></tr></thead>
+<tbody>
+${report.overTime
+  .map(
+    ({ month, approved }, idx) =>
+      `<tr><td>${month}</td><td class="num">${approved}</td><td class="num">${formatChange(approved, report.overTime[idx - 1]?.approved)}</td><td class="chart">${htmlBar(approved, maxOverTime)}</td></tr>`
+  )
+  .join("\n")}
+</tbody>
+</table>`
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Lint debt</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 60rem; padding: 0 1rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { padding: 0.3rem 0.6rem; border-bottom: 1px solid #ddd; text-align: left; }
+  .num { text-align: right; font-variant-numeric: tabular-nums; }
+  .chart { width: 30%; }
+  .bar { height: 0.8rem; background: #d9534f; }
+  .summary { font-size: 1.2rem; }
+  footer { color: #888; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<h1>Lint debt</h1>
+<p class="summary">${escapeHtml(summaryLine(report))}</p>
+${sections.join("\n")}
+<h2>Over time</h2>
+${overTime}
+<footer>Generated ${escapeHtml(report.generatedAt)} by vibelint-wizard from .eslint-warnings-cache.json</footer>
+</body>
+</html>`
+}
+
+/**
+ * `vibelint-wizard report`: the debt the cache holds, for whoever keeps asking. Reads the cache and its git
+ * history, never runs ESLint and never writes anything. Everything but the terminal tables is meant to be
+ * redirected into a file.
+ */
+export async function runReport(format: ReportFormat): Promise<void> {
+  const report = await buildDebtReport()
+  if (format === "json") {
+    console.log(JSON.stringify(report, null, 2))
+  } else if (format === "markdown") {
+    console.log(formatMarkdown(report))
+  } else if (format === "html") {
+    console.log(formatHtml(report))
+  } else {
+    printReport(report)
+  }
+}
@@ -0,0 +1,158 @@
+import { existsSync } from "fs"
+import { writeFile } from "fs/promises"
+import { relative, resolve } from "path"
+
+import kleur from "kleur"
+
+import { addApproval, countApprovals, isExpired, loadCache, saveCache } from "./cache.js"
+import { resolveEslintConfig } from "./config.js"
+import {
+  readEslintSuppressions,
+  resolveSuppressionsFile,
+  runESLint,
+  type EslintSuppressions,
+  type LintOptions
+} from "./eslint.js"
+import { toRelativePath } from "./fingerprint.js"
+import { getGitUserEmail } from "./git.js"
+import { loadPolicy, resolveRulePolicy } from "./policy.js"
+import { collectWarnings, reconcileApprovals } from "./warnings.js"
+
+/**
+ * Turn ESLint's per-file, per-rule error counts into proper approvals. ESLint doesn't remember which
+ * errors it suppressed, only how many, so we approve up to that many current errors of each rule in each file.
+ */
+export async function importEslintSuppressions(
+  location: string | undefined,
+  dryRun: boolean,
+  lintOptions: LintOptions
+): Promise<void> {
+  const policy = loadPolicy()
+  const suppressionsFile = resolveSuppressionsFile(policy, location)
+  const suppressionsName = relative(process.cwd(), suppressionsFile)
+  if (!existsSync(suppressionsFile)) {
+    throw new Error(`${suppressionsName} doesn't exist, nothing to import`)
+  }
+  const suppressions = await readEslintSuppressions(suppressionsFile)
+
+  const cache = await loadCache(await resolveEslintConfig())
+
+  console.log(kleur.blue(`Running ESLint to find out what ${suppressionsName} is hiding...`))
+  // Its errors show up as suppressed when ESLint applies the suppressions file (`defer`), as plain errors otherwise
+  const warnings = await collectWarnings(await runESLint(lintOptions), { includeEslintSuppressed: true })
+  const { newWarnings } = reconcileApprovals(cache, warnings, policy)
+
+  const remaining = new Map(
+    Object.entries(suppressions).flatMap(([file, rules]) =>
+      Object.entries(rules).map(([ruleId, { count }]): [string, number] => [`${file}\0${ruleId}`, count])
+    )
+  )
+  const importedPerRule = new Map<string, number>()
+  let forbiddenCount = 0
+  const approvedAt = new Date().toISOString()
+  for (const warning of newWarnings) {
+    // Only errors, ESLint never suppresses warnings
+    const key = `${toRelativePath(warning.filePath, policy.dir)}\0${warning.ruleId}`
+    const left = remaining.get(key) ?? 0
+    if (warning.severity !== 2 || left <= 0) continue
+    if (resolveRulePolicy(policy, warning.ruleId, warning.filePath, warning.severity) === "forbidden") {
+      forbiddenCount++
+      continue
+    }
+    remaining.set(key, left - 1)
+    importedPerRule.set(warning.ruleId, (importedPerRule.get(warning.ruleId) ?? 0) + 1)
+    addApproval(cache.approvedWarnings, {
+      ...warning.fingerprint,
+      author: getGitUserEmail(),
+      approvedAt,
+      reason: `Imported from ${suppressionsName}`
+    })
+  }
+
+  const importedCount = [...importedPerRule.values()].reduce((sum, count) => sum + count, 0)
+  const unmatchedCount = [...remaining.values()].reduce((sum, count) => sum + Math.max(0, count), 0)
+  for (const [ruleId, count] of [...importedPerRule.entries()].sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+  )) {
+    console.log(`  ${kleur.yellow(count.toString())}  ${kleur.cyan(ruleId)}`)
+  }
+  if (forbiddenCount > 0) {
+    console.log(
+      kleur.red(`🚫 Skipped ${forbiddenCount} suppressed error(s) for rules vibelint.config forbids approving.`)
+    )
+  }
+  if (unmatchedCount > 0) {
+    console.log(
+      kleur.dim(`${unmatchedCount} suppression(s) didn't match any error anymore (fixed, or someone got creative).`)
+    )
+  }
+
+  if (dryRun) {
+    console.log(
+      `\n${kleur.yellow().bold(`Dry run: would import ${importedCount} suppressed error(s).`)} ${kleur.dim("Nothing was written.")}`
+    )
+    return
+  }
+  if (importedCount > 0) {
+    await saveCache(cache)
+  }
+  console.log(
+    `\n${kleur.green().bold(`✓ Imported ${importedCount} suppressed error(s).`)} ${kleur.dim(`Delete ${suppressionsName} when you're done with it, or set "eslintSuppressions": { "defer": true } to keep both.`)}`
+  )
+}
+
+/**
+ * Write approved errors as ESLint suppressions. ESLint only counts errors per file and rule,
+ * so approved warnings and everything that makes an approval specific get lost on the way.
+ */
+export async function exportEslintSuppressions(location: string | undefined, dryRun: boolean): Promise<void> {
+  const policy = loadPolicy()
+  const suppressionsFile = resolveSuppressionsFile(policy, location)
+  const suppressionsName = relative(process.cwd(), suppressionsFile)
+  const cache = await loadCache(await resolveEslintConfig())
+
+  const active = cache.approvedWarnings.filter(
+    (approved) =>
+      !isExpired(approved) &&
+      resolveRulePolicy(policy, approved.ruleId, resolve(approved.file), approved.severity) !== "forbidden"
+  )
+  const errors = active.filter((approved) => approved.severity === 2)
+
+  // Approved files are relative to the project root, ESLint's suppressions to the vibelint.config directory
+  const counts = new Map<string, Map<string, number>>()
+  for (const approved of errors) {
+    const file = toRelativePath(resolve(approved.file), policy.dir)
+    const rules = counts.get(file) ?? new Map<string, number>()
+    rules.set(approved.ruleId, (rules.get(approved.ruleId) ?? 0) + approved.count)
+    counts.set(file, rules)
+  }
+  // Sorted like ESLint writes it, so switching back and forth doesn't churn the diff
+  const suppressions: EslintSuppressions = {}
+  for (const file of [...counts.keys()].sort()) {
+    const rules = counts.get(file) ?? new Map<string, number>()
+    suppressions[file] = {}
+    for (const ruleId of [...rules.keys()].sort()) {
+      suppressions[file][ruleId] = { count: rules.get(ruleId) ?? 0 }
+    }
+  }
+
+  const skippedWarnings = countApprovals(active) - countApprovals(errors)
+  if (skippedWarnings > 0) {
+    console.log(
+      kleur.yellow(`⚠️  Skipped ${skippedWarnings} approved warning(s): ESLint's suppressions only cover errors.`)
+    )
+  }
+
+  const exportedCount = countApprovals(errors)
+  if (dryRun) {
+    console.log(JSON.stringify(suppressions, null, 2))
+    console.log(
+      `\n${kleur.yellow().bold(`Dry run: would export ${exportedCount} approved error(s) to ${suppressionsName}.`)} ${kleur.dim("Nothing was written.")}`
+    )
+    return
+  }
+  await writeFile(suppressionsFile, JSON.stringify(suppressions, null, 2) + "\n", "utf-8")
+  console.log(
+    `${kleur.green().bold(`✓ Exported ${exportedCount} approved error(s) to ${suppressionsName}.`)} ${kleur.dim(`Set "eslintSuppressions": { "defer": true } in vibelint.config (or drop the plugin), otherwise the plugin suppresses these first and ESLint complains its suppressions are unused.`)}`
+  )
+}
@@ -0,0 +1,39 @@
+import kleur from "kleur"
+
+// Milliseconds spent per phase, in the order phases first ran
+const phases = new Map<string, number>()
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Start timing `phase`, call the returned function when it's over. Phases can run more than once, durations add up.
+ */
+export function startPhase(phase: string): () => void {
+  const start = performance.now()
+  return () => {
+    phases.set(phase, (phases.get(phase) ?? 0) + performance.now() - start)
+  }
+}
+
+export async function timed<T>(phase: string, fn: () => T | Promise<T>): Promise<T> {
+  const stop = startPhase(phase)
+  try {
+    return await fn()
+  } finally {
+    stop()
+  }
+}
+
+/**
+ * Print where the time went as the process exits, on stderr so `--ci --format json` stays parseable.
+ * On exit rather than at the end of a command, because half our exits are process.exit(1).
+ */
+export function reportTimingsOnExit(): void {
+  process.on("exit", () => {
+    if (phases.size === 0) return
+    const breakdown = [...phases].map(([phase, ms]) => `${phase} ${formatDuration(ms)}`).join(", ")
+    console.error(kleur.dim(`⏱  ${breakdown} (${formatDuration(performance.now())} total, Node startup included)`))
+  })
+}
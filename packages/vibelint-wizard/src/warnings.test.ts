@@ -0,0 +1,121 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { resolve } from "path"
+
+import { addApproval, removeApproval, type CachedApproval, type CacheFile } from "./cache.js"
+import { createFingerprint } from "./fingerprint.js"
+import { keepSkippedReviews, pruneStaleApprovals, scopeToFiles, type Warning } from "./warnings.js"
+
+const SOURCE = ["function load(data) {", "  if (data == null) return", "  return data", "}"]
+
+function warningAt(lines: string[], line: number, severity: number, file: string = "src/load.js"): Warning {
+  return {
+    fingerprint: createFingerprint(file, "eqeqeq", "Expected '===' and instead saw '=='.", lines, line, severity),
+    filePath: file,
+    line,
+    column: 12,
+    severity,
+    ruleId: "eqeqeq",
+    message: "Expected '===' and instead saw '=='.",
+    codeSnippet: lines[line - 1],
+    codeContext: lines
+  }
+}
+
+function approvalFor(warning: Warning): CachedApproval {
+  return { ...warning.fingerprint, count: 1, author: "someone@example.com", reason: "legacy, don't touch" }
+}
+
+function cacheWith(approvals: CachedApproval[]): CacheFile {
+  return {
+    version: "2.6",
+    eslintConfigHash: "",
+    eslintConfig: { plugins: {}, rules: {} },
+    approvedWarnings: approvals
+  }
+}
+
+// What the wizard does once the review is over and the reviewed approvals were all skipped
+function finishReview(cache: CacheFile, reviewed: CachedApproval[], warnings: Warning[]): CachedApproval[] {
+  return [
+    ...pruneStaleApprovals(cache, warnings, (approved) => !reviewed.includes(approved)),
+    ...keepSkippedReviews(cache, new Map(reviewed.map((approved) => [approved, approved.count])), warnings)
+  ]
+}
+
+describe("keepSkippedReviews", () => {
+  it("keeps a skipped approval whose rule went from error to warn", () => {
+    const approved = approvalFor(warningAt(SOURCE, 2, 2))
+    const cache = cacheWith([approved])
+    const warning = warningAt(SOURCE, 2, 1)
+
+    assert.deepEqual(finishReview(cache, [approved], [warning]), [])
+    assert.equal(cache.approvedWarnings.length, 1)
+    assert.equal(cache.approvedWarnings[0].severity, 1)
+    assert.equal(cache.approvedWarnings[0].reason, "legacy, don't touch")
+  })
+
+  it("keeps a skipped approval at its old severity when its rule went from warn to error", () => {
+    const approved = approvalFor(warningAt(SOURCE, 2, 1))
+    const cache = cacheWith([approved])
+
+    assert.deepEqual(finishReview(cache, [approved], [warningAt(SOURCE, 2, 2)]), [])
+    assert.equal(cache.approvedWarnings.length, 1)
+    assert.equal(cache.approvedWarnings[0].severity, 1)
+  })
+
+  it("re-attaches a skipped approval to code that moved", () => {
+    const approved = approvalFor(warningAt(SOURCE, 2, 2))
+    const cache = cacheWith([approved])
+    const moved = ["// Loads the data, obviously", SOURCE[0], "  // nobody knows why", ...SOURCE.slice(1)]
+    const warning = warningAt(moved, 4, 1)
+    assert.notEqual(warning.fingerprint.contextHash, approved.contextHash)
+
+    assert.deepEqual(finishReview(cache, [approved], [warning]), [])
+    assert.equal(cache.approvedWarnings.length, 1)
+    assert.deepEqual({ ...cache.approvedWarnings[0], ...warning.fingerprint }, cache.approvedWarnings[0])
+    assert.equal(cache.approvedWarnings[0].author, approved.author)
+  })
+
+  it("only re-attaches to the issues whose re-review was skipped", () => {
+    const decided = warningAt(SOURCE, 2, 2)
+    const approved = { ...approvalFor(decided), count: 2 }
+    const cache = cacheWith([approved])
+    // Approved again in the same session: replaces one instance of the old approval, which it merges back into
+    removeApproval(cache.approvedWarnings, approved)
+    addApproval(cache.approvedWarnings, { ...decided.fingerprint, author: "me@example.com" })
+    const skipped = warningAt(
+      ["// Loads the data, obviously", SOURCE[0], "  // nobody knows why", ...SOURCE.slice(1)],
+      4,
+      2
+    )
+
+    assert.deepEqual(keepSkippedReviews(cache, new Map([[approved, 1]]), [skipped]), [])
+    assert.deepEqual(
+      cache.approvedWarnings.map(({ contextHash, author, count }) => ({ contextHash, author, count })),
+      [
+        { contextHash: decided.fingerprint.contextHash, author: approved.author, count: 1 },
+        { contextHash: skipped.fingerprint.contextHash, author: approved.author, count: 1 }
+      ]
+    )
+  })
+
+  it("drops a skipped approval whose issue was fixed", () => {
+    const approved = approvalFor(warningAt(SOURCE, 2, 2))
+    const cache = cacheWith([approved])
+
+    assert.deepEqual(finishReview(cache, [approved], []), [approved])
+    assert.deepEqual(cache.approvedWarnings, [])
+  })
+
+  it("leaves approvals outside the scope alone", () => {
+    const approved = approvalFor(warningAt(SOURCE, 2, 2, "src/other.js"))
+    const cache = cacheWith([approved])
+
+    assert.deepEqual(
+      keepSkippedReviews(cache, new Map([[approved, 1]]), [], scopeToFiles([resolve("src/load.js")])),
+      []
+    )
+    assert.deepEqual(cache.approvedWarnings, [approved])
+  })
+})
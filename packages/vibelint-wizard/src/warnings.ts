@@ -0,0 +1,332 @@
+import { readFile } from "fs/promises"
+import { resolve } from "path"
+
+import {
+  addApproval,
+  countApprovals,
+  isExpired,
+  pickApprovalMetadata,
+  removeApproval,
+  type CachedApproval,
+  type CacheFile
+} from "./cache.js"
+import { findRuleChange, type EslintConfigChanges, type RuleChange } from "./config.js"
+import type { ESLintFileResult, ESLintMessage } from "./eslint.js"
+import {
+  countFingerprints,
+  createFingerprint,
+  fingerprintKey,
+  fingerprintMatches,
+  matchFingerprints,
+  toRelativePath,
+  type ApprovedWarning,
+  type WarningFingerprint
+} from "./fingerprint.js"
+import { resolveRulePolicy, type VibelintPolicy } from "./policy.js"
+
+// Must match the prefix eslint-plugin-vibelint puts on its suppressions
+const JUSTIFICATION_PREFIX = "vibelint:"
+
+/**
+ * Suppressed by eslint-plugin-vibelint (approved or auto-approved), not by an eslint-disable comment.
+ * Still an issue as far as the cache is concerned, otherwise its approval would look stale.
+ */
+function isSuppressedByVibelint(msg: ESLintMessage): boolean {
+  return (
+    msg.suppressions !== undefined &&
+    msg.suppressions.length > 0 &&
+    msg.suppressions.every((suppression) => suppression.justification.startsWith(JUSTIFICATION_PREFIX))
+  )
+}
+
+/**
+ * Suppressed by ESLint itself from eslint-suppressions.json (the CLI applies it whenever the file exists)
+ */
+function isSuppressedByEslintFile(msg: ESLintMessage): boolean {
+  return msg.suppressions?.some((suppression) => suppression.kind === "file") ?? false
+}
+
+/**
+ * eslint-plugin-vibelint's no-stale-approvals, under whatever name the config registered the plugin.
+ * That one is for editors and plain ESLint runs, we prune stale approvals ourselves.
+ */
+function isStaleApprovalReport(msg: ESLintMessage): boolean {
+  return msg.ruleId?.endsWith("/no-stale-approvals") ?? false
+}
+
+export interface Warning {
+  fingerprint: WarningFingerprint
+  filePath: string
+  line: number
+  column: number
+  severity: number
+  ruleId: string
+  message: string
+  codeSnippet: string
+  codeContext: string[]
+}
+
+async function readSourceLines(filePath: string): Promise<string[]> {
+  try {
+    const content = await readFile(filePath, "utf-8")
+    return content.split("\n")
+  } catch (error) {
+    console.warn(
+      `Warning: Could not read file ${filePath} (probably doesn't exist or you don't have permission, genius): ${error}`
+    )
+    return []
+  }
+}
+
+function readSourceContext(lines: string[], lineNumber: number, contextLines: number = 3): string[] {
+  if (lineNumber > 0 && lineNumber <= lines.length) {
+    const startLine = Math.max(0, lineNumber - contextLines - 1)
+    const endLine = Math.min(lines.length, lineNumber + contextLines)
+    return lines.slice(startLine, endLine)
+  }
+  return []
+}
+
+/**
+ * `includeEslintSuppressed`: also collect errors ESLint suppressed from eslint-suppressions.json,
+ * for when we want to take them over. `contents`: what was linted instead of the files on disk.
+ */
+export async function collectWarnings(
+  eslintResults: ESLintFileResult[],
+  {
+    includeEslintSuppressed = false,
+    contents
+  }: { includeEslintSuppressed?: boolean; contents?: Map<string, string> } = {}
+): Promise<Warning[]> {
+  const warnings: Warning[] = []
+
+  for (const result of eslintResults) {
+    // Process both warnings (severity 1) and errors (severity 2)
+    const suppressed = (result.suppressedMessages ?? []).filter(
+      (msg) => isSuppressedByVibelint(msg) || (includeEslintSuppressed && isSuppressedByEslintFile(msg))
+    )
+    const issues = [...result.messages, ...suppressed].filter(
+      (msg) => (msg.severity === 1 || msg.severity === 2) && !isStaleApprovalReport(msg)
+    )
+    if (issues.length === 0) continue
+
+    const lines = contents?.get(result.filePath)?.split("\n") ?? (await readSourceLines(result.filePath))
+    for (const msg of issues) {
+      const fingerprint = createFingerprint(
+        toRelativePath(result.filePath, process.cwd()),
+        msg.ruleId,
+        msg.message,
+        lines,
+        msg.line,
+        msg.severity
+      )
+
+      warnings.push({
+        fingerprint,
+        filePath: result.filePath,
+        line: msg.line,
+        column: msg.column,
+        severity: msg.severity,
+        ruleId: msg.ruleId || "unknown",
+        message: msg.message,
+        codeSnippet: (lines[msg.line - 1] ?? msg.source ?? "").trim(),
+        codeContext: readSourceContext(lines, msg.line, 3)
+      })
+    }
+  }
+
+  return warnings
+}
+
+/**
+ * Which approvals a run is responsible for. A run that only linted some files leaves everyone else's alone.
+ */
+export type ApprovalScope = (approved: ApprovedWarning) => boolean
+
+export const ALL_APPROVALS: ApprovalScope = () => true
+
+/**
+ * Approvals for `files` (absolute paths), linted or deleted
+ */
+export function scopeToFiles(files: string[]): ApprovalScope {
+  const relativePaths = new Set(files.map((file) => toRelativePath(file, process.cwd())))
+  return (approved) => relativePaths.has(approved.file)
+}
+
+/**
+ * Match warnings against the cache and return the ones nobody approved yet.
+ *
+ * Approvals are rebuilt from the warnings they matched, so approvals for moved code follow the code
+ * (and an approved error that got downgraded to a warning is now an approved warning).
+ * Warnings escalated to errors don't match their old approval, those are new too.
+ * Whatever an approval didn't match stays put until stale approvals are pruned.
+ * Expired approvals and approvals for rules the policy forbids are dropped, so their warnings come back as new ones.
+ * Warnings for auto-approved rules never count as new.
+ * Approvals outside `scope` are left exactly as they are.
+ */
+export function reconcileApprovals(
+  cache: CacheFile,
+  warnings: Warning[],
+  policy: VibelintPolicy,
+  scope: ApprovalScope = ALL_APPROVALS
+): {
+  newWarnings: Warning[]
+  reattachedCount: number
+  expiredCount: number
+  forbiddenCount: number
+  autoApprovedCount: number
+} {
+  const scopedApprovals = cache.approvedWarnings.filter(scope)
+  const unexpiredApprovals = scopedApprovals.filter((approved) => !isExpired(approved))
+  const activeApprovals = unexpiredApprovals.filter(
+    (approved) => resolveRulePolicy(policy, approved.ruleId, resolve(approved.file), approved.severity) !== "forbidden"
+  )
+  const expiredCount = countApprovals(scopedApprovals) - countApprovals(unexpiredApprovals)
+  const forbiddenCount = countApprovals(unexpiredApprovals) - countApprovals(activeApprovals)
+  const matches = matchFingerprints(
+    activeApprovals,
+    warnings.map((w) => w.fingerprint)
+  )
+
+  let reattachedCount = 0
+  const consumed = new Map<CachedApproval, number>()
+  const rebuiltApprovals: CachedApproval[] = []
+  matches.forEach((approved, idx) => {
+    if (!approved) return
+    consumed.set(approved, (consumed.get(approved) ?? 0) + 1)
+    if (!fingerprintMatches(approved, warnings[idx].fingerprint)) {
+      reattachedCount++
+    }
+    addApproval(rebuiltApprovals, { ...warnings[idx].fingerprint, ...pickApprovalMetadata(approved) })
+  })
+  for (const approved of activeApprovals) {
+    const leftover = approved.count - (consumed.get(approved) ?? 0)
+    if (leftover > 0) {
+      addApproval(rebuiltApprovals, approved, leftover)
+    }
+  }
+  cache.approvedWarnings = [...rebuiltApprovals, ...cache.approvedWarnings.filter((approved) => !scope(approved))]
+
+  const unmatched = warnings.filter((_, idx) => matches[idx] === undefined)
+  const newWarnings = unmatched.filter(
+    (w) => resolveRulePolicy(policy, w.ruleId, w.filePath, w.severity) !== "auto-approve"
+  )
+
+  return {
+    newWarnings,
+    reattachedCount,
+    expiredCount,
+    forbiddenCount,
+    autoApprovedCount: unmatched.length - newWarnings.length
+  }
+}
+
+/**
+ * Keep at most as many approvals per fingerprint as there are instances left in the code.
+ * Returns the dropped approvals, `count` being how many instances of each were dropped.
+ * Approvals outside `scope` are kept whatever `warnings` says, they weren't linted.
+ */
+export function pruneStaleApprovals(
+  cache: CacheFile,
+  warnings: Warning[],
+  scope: ApprovalScope = ALL_APPROVALS
+): CachedApproval[] {
+  const currentCounts = new Map(
+    countFingerprints(warnings.map((w) => w.fingerprint)).map((counted) => [fingerprintKey(counted), counted.count])
+  )
+  const pruned: CachedApproval[] = []
+  cache.approvedWarnings = cache.approvedWarnings.flatMap((approved) => {
+    if (!scope(approved)) return [approved]
+    const kept = Math.min(approved.count, currentCounts.get(fingerprintKey(approved)) ?? 0)
+    if (kept < approved.count) {
+      pruned.push({ ...approved, count: approved.count - kept })
+    }
+    return kept > 0 ? [{ ...approved, count: kept }] : []
+  })
+  return pruned
+}
+
+/**
+ * Drop approvals for rules a config change turned off, in every file, scope or not: nothing will
+ * report them ever again. Returns the dropped approvals.
+ */
+export function dropApprovalsForDisabledRules(cache: CacheFile, changes: EslintConfigChanges): CachedApproval[] {
+  const dropped = cache.approvedWarnings.filter(
+    (approved) => findRuleChange(changes, approved.ruleId, approved.file) === "off"
+  )
+  cache.approvedWarnings = cache.approvedWarnings.filter((approved) => !dropped.includes(approved))
+  return dropped
+}
+
+/**
+ * Unexpired approvals for rules whose severity or options a config change changed, and what changed.
+ * Somebody approved those under different rules, they may want another look.
+ */
+export function findApprovalsForChangedRules(
+  cache: CacheFile,
+  changes: EslintConfigChanges
+): Map<CachedApproval, RuleChange> {
+  const found = new Map<CachedApproval, RuleChange>()
+  for (const approved of cache.approvedWarnings) {
+    const change = findRuleChange(changes, approved.ruleId, approved.file)
+    if (change && change !== "off" && !isExpired(approved)) {
+      found.set(approved, change)
+    }
+  }
+  return found
+}
+
+/**
+ * Which warnings the approvals under re-review used to cover. Whatever severity they were approved at:
+ * a warning that is an error now is exactly what the re-review is for.
+ */
+export function matchReviewedApprovals(approvals: CachedApproval[], warnings: Warning[]): Map<Warning, CachedApproval> {
+  const candidates = approvals.map((approved) => ({ ...approved, severity: 2, approved }))
+  const matches = matchFingerprints(
+    candidates,
+    warnings.map((w) => w.fingerprint)
+  )
+  const matched = new Map<Warning, CachedApproval>()
+  matches.forEach((candidate, idx) => {
+    if (candidate) {
+      matched.set(warnings[idx], candidate.approved)
+    }
+  })
+  return matched
+}
+
+/**
+ * Approvals under re-review that nobody approved or rejected again (skipped, or the review was cut short),
+ * `undecided` being how many instances of each that is: those still matching one of the `skippedIssues` are
+ * re-attached to it at the severity they were approved at, so skipping keeps the old approval wherever the code
+ * moved and whatever the rule change did to its severity. Issues approved or rejected again already have their
+ * answer, they don't belong in `skippedIssues`. The others are dropped like any stale approval, and returned.
+ * Approvals outside `scope` are left alone, they weren't linted.
+ */
+export function keepSkippedReviews(
+  cache: CacheFile,
+  undecided: Map<CachedApproval, number>,
+  skippedIssues: Warning[],
+  scope: ApprovalScope = ALL_APPROVALS
+): CachedApproval[] {
+  const skipped = [...undecided]
+    .filter(([approved, count]) => count > 0 && scope(approved))
+    .map(([approved, count]) => {
+      // A fresh approval for the same fingerprint may have been added to it in the meantime, that one stays
+      removeApproval(cache.approvedWarnings, approved, count)
+      return { ...approved, count }
+    })
+  const consumed = new Map<CachedApproval, number>()
+  for (const [warning, approved] of matchReviewedApprovals(skipped, skippedIssues)) {
+    consumed.set(approved, (consumed.get(approved) ?? 0) + 1)
+    addApproval(cache.approvedWarnings, {
+      ...warning.fingerprint,
+      ...pickApprovalMetadata(approved),
+      severity: Math.min(approved.severity, warning.severity)
+    })
+  }
+  return skipped.flatMap((approved) => {
+    const leftover = approved.count - (consumed.get(approved) ?? 0)
+    return leftover > 0 ? [{ ...approved, count: leftover }] : []
+  })
+}
@@ -0,0 +1,840 @@
+import kleur from "kleur"
+import prompts from "prompts"
+
+import {
+  addApproval,
+  countApprovals,
+  loadCache,
+  removeApproval,
+  saveCache,
+  type CachedApproval,
+  type CacheFile
+} from "./cache.js"
+import {
+  describeRuleChange,
+  diffEslintConfigs,
+  formatEslintConfigChanges,
+  resolveEslintConfig,
+  type EslintConfigChanges,
+  type RuleChange
+} from "./config.js"
+import { runESLint, type LintOptions } from "./eslint.js"
+import { getGitUserEmail, type ChangedFiles } from "./git.js"
+import { loadPolicy, resolveRulePolicy } from "./policy.js"
+import { startPhase, timed } from "./timings.js"
+import {
+  ALL_APPROVALS,
+  collectWarnings,
+  dropApprovalsForDisabledRules,
+  findApprovalsForChangedRules,
+  keepSkippedReviews,
+  matchReviewedApprovals,
+  pruneStaleApprovals,
+  reconcileApprovals,
+  scopeToFiles,
+  type ApprovalScope,
+  type Warning
+} from "./warnings.js"
+
+const ACTION_CHOICES = [
+  { title: "✓ Approve (pretend this warning doesn't matter)", value: "approve" },
+  { title: "✎ Approve with a reason (leave a note for the archaeologists)", value: "approve-with-reason" },
+  { title: "✓✓ Approve all remaining for this rule (mass surrender)", value: "approve-rule" },
+  { title: "✓✓ Approve all remaining in this file (this file is a lost cause)", value: "approve-file" },
+  { title: "✗ Reject (actually fix your code like a professional)", value: "reject" },
+  { title: "✗✗ Reject all for this rule (you'll fix them all, sure)", value: "reject-rule" },
+  { title: "→ Skip (procrastinate like a champion)", value: "skip" },
+  { title: "→→ Skip the rest (procrastination level: grandmaster)", value: "skip-rest" }
+]
+
+const APPROVE_ACTIONS = ["approve", "approve-with-reason", "approve-rule", "approve-file"]
+
+interface ApprovalDecision {
+  reason?: string
+  expiresAt?: string
+}
+
+interface PendingApproval {
+  warning: Warning
+  decision: ApprovalDecision
+  // The approval under re-review this one takes over from
+  replaces?: CachedApproval
+}
+
+async function confirmEslintConfigChange(changes: EslintConfigChanges): Promise<boolean> {
+  console.log(`\n${kleur.yellow().bold("⚠️  SURPRISE! Your ESLint config changed! (Shocking, I know.)")}\n`)
+  console.log(
+    `${kleur.dim("Someone (probably you) decided to mess with the ESLint configuration. Here's the damage:")}\n`
+  )
+  for (const line of formatEslintConfigChanges(changes)) {
+    console.log(`  ${line}`)
+  }
+  console.log(`\n${kleur.yellow("This might change what warnings we find. Or it might not. Who knows?")}\n`)
+
+  if (process.stdin.isPaused()) {
+    process.stdin.resume()
+  }
+
+  if (!process.stdin.isTTY) {
+    console.error(
+      "\nERROR: stdin is not a TTY (you're probably running this in CI or a non-interactive environment, genius)."
+    )
+    console.error("This script requires an interactive terminal (because we need to ask you questions, duh).")
+    process.exit(1)
+  }
+
+  try {
+    const response = await prompts(
+      {
+        type: "confirm",
+        name: "confirmed",
+        message: "Want to proceed with this newfangled config? (Or bail out like a coward?)",
+        initial: false,
+        stdin: process.stdin,
+        stdout: process.stdout
+      },
+      {
+        onCancel: () => {
+          console.log("\nFine, be that way. Exiting because you're no fun.")
+          process.exit(1)
+        }
+      }
+    )
+
+    if (!response || typeof response !== "object" || !("confirmed" in response)) {
+      console.error("\nERROR: No response received from prompt (you didn't answer, or something broke).")
+      console.error("Exiting for safety (because we can't proceed without your input).")
+      process.exit(1)
+    }
+
+    return response.confirmed === true
+  } catch (error) {
+    console.error("\nERROR: Prompt failed (because nothing ever works smoothly):", error)
+    console.error("Exiting for safety (because we're paranoid like that).")
+    process.exit(1)
+  }
+}
+
+async function confirmReReview(count: number): Promise<boolean> {
+  const response = await prompts(
+    {
+      type: "confirm",
+      name: "confirmed",
+      message: `${count} approval(s) are for rules whose severity or options just changed. Re-review them? (No keeps them as they are)`,
+      initial: true,
+      stdin: process.stdin,
+      stdout: process.stdout
+    },
+    {
+      onCancel: () => {
+        console.log("\nYou cancelled. Commit aborted because you're indecisive.")
+        process.exit(1)
+      }
+    }
+  )
+  return response.confirmed === true
+}
+
+async function askApprovalReason(): Promise<string | undefined> {
+  const response = await prompts(
+    {
+      type: "text",
+      name: "reason",
+      message: "Why is this fine? (Future you will want to know. Enter to skip, like you skip everything else)",
+      stdin: process.stdin,
+      stdout: process.stdout
+    },
+    {
+      onCancel: () => {
+        console.log("\nYou cancelled. Commit aborted because you're indecisive.")
+        process.exit(1)
+      }
+    }
+  )
+  const reason = typeof response.reason === "string" ? response.reason.trim() : ""
+  return reason || undefined
+}
+
+const EXPIRY_CHOICES = [
+  { title: "Forever (it's permanent now, let's be honest)", value: 0 },
+  { title: "7 days", value: 7 },
+  { title: "30 days", value: 30 },
+  { title: "90 days (you won't fix it in 90 days either)", value: 90 }
+]
+
+async function askApprovalExpiry(): Promise<string | undefined> {
+  const response = await prompts(
+    {
+      type: "select",
+      name: "days",
+      message: "Approve for how long?",
+      choices: EXPIRY_CHOICES,
+      initial: 0,
+      stdin: process.stdin,
+      stdout: process.stdout
+    },
+    {
+      onCancel: () => {
+        console.log("\nYou cancelled. Commit aborted because you're indecisive.")
+        process.exit(1)
+      }
+    }
+  )
+  const days = typeof response.days === "number" ? response.days : 0
+  return days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : undefined
+}
+
+function approveWarning(
+  cache: CacheFile,
+  warning: Warning,
+  decision: ApprovalDecision,
+  replaces?: CachedApproval
+): void {
+  if (replaces) {
+    removeApproval(cache.approvedWarnings, replaces)
+  }
+  addApproval(cache.approvedWarnings, {
+    ...warning.fingerprint,
+    author: getGitUserEmail(),
+    approvedAt: new Date().toISOString(),
+    reason: decision.reason,
+    expiresAt: decision.expiresAt
+  })
+}
+
+/**
+ * Show what the bulk actions are about to approve and write it only if confirmed.
+ * Returns how many issues were approved.
+ */
+async function confirmBulkApprovals(cache: CacheFile, pending: PendingApproval[]): Promise<number> {
+  const perRule = new Map<string, number>()
+  const perFile = new Map<string, number>()
+  for (const { warning } of pending) {
+    perRule.set(warning.ruleId, (perRule.get(warning.ruleId) ?? 0) + 1)
+    perFile.set(warning.fingerprint.file, (perFile.get(warning.fingerprint.file) ?? 0) + 1)
+  }
+
+  console.log(`\n${kleur.yellow().bold("=".repeat(80))}`)
+  console.log(kleur.yellow().bold(`Bulk approval summary: ${pending.length} issue(s) (the mass grave)`))
+  console.log(kleur.yellow().bold("=".repeat(80)))
+  console.log(`\n${kleur.dim("Per rule")}:`)
+  for (const [ruleId, count] of perRule) {
+    console.log(`  ${kleur.yellow(count.toString().padStart(4, " "))}  ${kleur.magenta(ruleId)}`)
+  }
+  console.log(`\n${kleur.dim("Per file")}:`)
+  for (const [file, count] of perFile) {
+    console.log(`  ${kleur.yellow(count.toString().padStart(4, " "))}  ${kleur.cyan(file)}`)
+  }
+  console.log("")
+
+  const response = await prompts(
+    {
+      type: "confirm",
+      name: "confirmed",
+      message: `Write all ${pending.length} approval(s) to the cache? (No take-backs)`,
+      initial: false,
+      stdin: process.stdin,
+      stdout: process.stdout
+    },
+    {
+      onCancel: () => {
+        console.log("\nYou cancelled. Commit aborted because you're indecisive.")
+        process.exit(1)
+      }
+    }
+  )
+
+  if (response.confirmed !== true) {
+    console.log(kleur.yellow("  → Nothing written. Those issues count as skipped (cold feet, huh?)"))
+    return 0
+  }
+
+  for (const { warning, decision, replaces } of pending) {
+    approveWarning(cache, warning, decision, replaces)
+  }
+  await saveCache(cache)
+  console.log(kleur.green(`  ✓ Approved ${pending.length} issue(s) in bulk and saved to cache (efficient surrender)`))
+  return pending.length
+}
+
+// vibelint's own rules, by rule name: the plugin is "suppress-approved" in flat config and "@vibelint/vibelint" in .eslintrc
+const VIBELINT_RULE_INSTRUCTIONS = new Map([
+  [
+    "no-unapproved-disable",
+    "REMOVE the eslint-disable comment and FIX what it was hiding. Approving this means a human signs off on the comment. DO NOT approve it without a reason."
+  ],
+  [
+    "no-unparsed-type-assertion",
+    "PARSE the data with Zod instead of asserting its type. Asserting a Zod parse result is the only acceptable 'as'. DO NOT lie to the compiler."
+  ],
+  ["no-stale-approvals", "RUN `vibelint-wizard prune`. The approved code is gone. DO NOT edit the cache by hand."]
+])
+
+function getRuleInstruction(ruleId: string): string {
+  const vibelintInstruction = ruleId.includes("/")
+    ? VIBELINT_RULE_INSTRUCTIONS.get(ruleId.slice(ruleId.lastIndexOf("/") + 1))
+    : undefined
+  if (vibelintInstruction) return vibelintInstruction
+
+  switch (ruleId) {
+    // TypeScript ESLint Rules
+    case "@typescript-eslint/ban-ts-comment":
+      return "DO NOT FIX THIS MESS BY ADDING A STUPID COMMENT. DO NOT USE ANOTHER TS HACK LIKE 'as', 'any', 'unknown',... FIX THE DAMN TS ERROR WITHOUT HACKS OR YOURE FIRED"
+    case "@typescript-eslint/no-unused-vars":
+      return "CHECK if the variable is actually unused before deleting. Look for exports, future use cases, or side effects. DO NOT delete without verification. Examine the entire codebase context, not just the immediate scope."
+    case "@typescript-eslint/consistent-type-assertions":
+      return "NEVER use 'as' type assertions. Think HARD about why this was needed. Can you use Zod for runtime validation? Can you improve the source type definition? IGNORING THE ERROR IS NOT A FIX. Find a proper solution or ask the user for clarification. Stop taking shortcuts."
+    case "@typescript-eslint/no-explicit-any":
+      return "REPLACE 'any' with proper types. Use generics, union types, or 'unknown' with type guards. DO NOT use 'any' as a crutch. Type your code properly."
+    case "@typescript-eslint/no-non-null-assertion":
+      return "REMOVE the '!' operator. Handle null/undefined properly with guards, optional chaining, or proper type narrowing. DO NOT assert non-null without verification."
+    case "@typescript-eslint/no-require-imports":
+      return "CONVERT require() to ES module import statements. Use import/export syntax. DO NOT use CommonJS require() in ES modules."
+    case "@typescript-eslint/no-dynamic-delete":
+      return "REPLACE dynamic property deletion with proper object manipulation. Use object destructuring, Object.assign, or create new objects. DO NOT use delete operator on dynamic keys."
+
+    // Promise Plugin Rules
+    case "promise/always-return":
+      return "ENSURE every promise chain branch returns a value. Check ALL branches, including error handlers. DO NOT leave promise chains without return values."
+    case "promise/catch-or-return":
+      return "HANDLE all promise rejections. Add .catch() handlers or return the promise. DO NOT leave promises unhandled. Every promise must have error handling."
+    case "promise/param-names":
+      return "USE Error objects for promise rejections, not strings. Create proper Error instances with meaningful messages. DO NOT reject with string values."
+    case "promise/no-return-wrap":
+      return "REMOVE unnecessary Promise.resolve/reject wrappers. Return the value directly. DO NOT wrap values that are already promises or values."
+    case "promise/prefer-await-to-then":
+      return "CONVERT .then() chains to async/await syntax. Use async functions and await keywords. DO NOT use promise chains when async/await is available."
+
+    // ESLint Comments Rules
+    case "eslint-comments/require-description":
+      return "FIX the actual problem instead of disabling the rule. If you MUST disable (and you better have a good reason), ADD a clear description explaining why. DO NOT disable rules without justification."
+    case "eslint-comments/disable-enable-pair":
+      return "PAIR your eslint-disable with a matching eslint-enable. Ensure every disable has a corresponding enable. DO NOT leave rules disabled indefinitely."
+    case "eslint-comments/no-unused-disable":
+      return "REMOVE the unused eslint-disable comment. It's not suppressing anything. DO NOT keep unnecessary disable comments."
+    case "eslint-comments/no-unused-enable":
+      return "REMOVE the unnecessary eslint-enable comment. The rule was never disabled. DO NOT enable rules that aren't disabled."
+
+    case "no-var":
+      return "REPLACE 'var' with 'let' or 'const'. Use modern variable declarations. DO NOT use 'var' - it's deprecated and causes scope issues."
+
+    // Default for unknown rules
+    default:
+      return "FIX these errors in a proper way. Look up the rule documentation and fix it correctly. DO NOT ignore it. DO NOT take shortcuts. If the next try fails, you will be in big trouble."
+  }
+}
+
+/**
+ * `changed`: only lint those files, and only touch their approvals
+ */
+export async function processWarnings(lintOptions: LintOptions, changed?: ChangedFiles): Promise<void> {
+  const currentConfig = await timed("config", () => resolveEslintConfig(lintOptions.cache))
+  const cache = await timed("cache", () => loadCache(currentConfig))
+  const policy = loadPolicy()
+
+  // Something to save even if nothing gets approved: an accepted config change, an approval rejected on re-review
+  let cacheChanged = false
+  // Approvals somebody wants another look at, because their rule changed
+  let reviewing = new Map<CachedApproval, RuleChange>()
+  if (cache.eslintConfigHash !== currentConfig.hash) {
+    const changes = diffEslintConfigs(cache.eslintConfig, currentConfig.snapshot)
+    const confirmed = await confirmEslintConfigChange(changes)
+    if (!confirmed) {
+      console.log(kleur.red("\n❌ You chickened out. Fine, we're done here. Exiting."))
+      process.exit(1)
+    }
+    console.log(kleur.green("\n✓ Bold choice! Let's see if this new config bites us in the ass. Proceeding...\n"))
+    cache.eslintConfigHash = currentConfig.hash
+    cache.eslintConfig = currentConfig.snapshot
+    cacheChanged = true
+
+    const dropped = dropApprovalsForDisabledRules(cache, changes)
+    if (dropped.length > 0) {
+      console.log(
+        kleur.dim(
+          `🗑  Dropped ${countApprovals(dropped)} approval(s) for rules you turned off (nothing reports them anymore, nothing to approve).`
+        )
+      )
+    }
+    const changedRules = findApprovalsForChangedRules(cache, changes)
+    if (changedRules.size > 0 && (await confirmReReview(countApprovals([...changedRules.keys()])))) {
+      reviewing = changedRules
+    }
+  }
+
+  if (changed) {
+    console.log(
+      kleur.blue(
+        `Running ESLint on ${changed.files.length} ${changed.description} (the rest of the cache stays as it is)...`
+      )
+    )
+  } else {
+    console.log(
+      kleur.blue(
+        "Running ESLint on your entire project (this might take a while, or it might not, depends on how much code you've written)..."
+      )
+    )
+  }
+  const eslintResults = await timed("eslint", () =>
+    runESLint({ ...lintOptions, files: changed?.files, contents: changed?.contents })
+  )
+  const scope = changed ? scopeToFiles(changed.files) : ALL_APPROVALS
+  // Approvals under re-review don't cover anything until somebody looked at them again
+  const reconcileScope: ApprovalScope = (approved) => scope(approved) && !reviewing.has(approved)
+  // Instances under re-review, before anybody approved or rejected one again
+  const reviewedCounts = new Map(
+    [...reviewing.keys()].map((approved): [CachedApproval, number] => [approved, approved.count])
+  )
+  // What's left under re-review once it's over was skipped: it stays wherever its issue (one of `skippedIssues`)
+  // is, fixed ones go like any other stale approval. Returns how many issues were fixed.
+  const pruneFixedApprovals = (undecided: Map<CachedApproval, number>, skippedIssues: Warning[]): number =>
+    countApprovals([
+      ...pruneStaleApprovals(cache, warnings, reconcileScope),
+      ...keepSkippedReviews(cache, undecided, skippedIssues, scope)
+    ])
+  const reportFixed = (fixedCount: number): void => {
+    if (fixedCount > 0) {
+      console.log(
+        kleur.green(
+          `🎉 ${fixedCount} previously approved issue(s) are gone, dropped them from the cache (you actually fixed something, impressive).`
+        )
+      )
+    }
+  }
+
+  const warnings = await timed("fingerprints", () => collectWarnings(eslintResults, { contents: changed?.contents }))
+
+  if (warnings.length === 0) {
+    console.log(
+      kleur.green(
+        "✓ No ESLint warnings or errors found. Either your code is perfect (unlikely) or your config is too lenient (probably)."
+      )
+    )
+    reportFixed(pruneFixedApprovals(reviewedCounts, []))
+    await saveCache(cache)
+    return
+  }
+
+  console.log(
+    `Found ${kleur.yellow().bold(warnings.length.toString())} ${kleur.yellow("issue(s)")} (warnings and errors, because of course you did). Checking against cache to see which ones are new...`
+  )
+
+  const { newWarnings, reattachedCount, expiredCount, forbiddenCount, autoApprovedCount } = await timed(
+    "matching",
+    () => reconcileApprovals(cache, warnings, policy, reconcileScope)
+  )
+  const previousApprovals = matchReviewedApprovals([...reviewing.keys()], newWarnings)
+  if (reattachedCount > 0) {
+    console.log(
+      kleur.dim(`Re-attached ${reattachedCount} approval(s) to code that moved around (we're nice like that).`)
+    )
+  }
+  if (expiredCount > 0) {
+    console.log(
+      kleur.yellow(`⏰ ${expiredCount} approval(s) expired. Temporary debt is due, their issues are back as new ones.`)
+    )
+  }
+
+  if (forbiddenCount > 0) {
+    console.log(
+      kleur.red(
+        `🚫 Ignored ${forbiddenCount} approval(s) for rules vibelint.config forbids approving. Hand-editing the cache won't save you.`
+      )
+    )
+  }
+  if (autoApprovedCount > 0) {
+    console.log(kleur.dim(`${autoApprovedCount} issue(s) auto-approved by vibelint.config (not even worth a look).`))
+  }
+
+  if (newWarnings.length === 0) {
+    console.log(kleur.green("✓ All issues are already approved (you've seen them all before, how exciting)."))
+    const fixedCount = pruneFixedApprovals(reviewedCounts, [])
+    reportFixed(fixedCount)
+    if (cacheChanged || fixedCount > 0 || reattachedCount > 0 || expiredCount > 0 || forbiddenCount > 0) {
+      await saveCache(cache)
+    }
+    return
+  }
+
+  console.log(
+    `\nFound ${kleur.cyan().bold(newWarnings.length.toString())} ${kleur.yellow("new issue(s)")} (warnings and errors) that need your attention (because apparently you can't write perfect code on the first try):\n`
+  )
+  if (previousApprovals.size > 0) {
+    console.log(
+      kleur.dim(
+        `${previousApprovals.size} of them were approved before their rule changed. Approve or reject them again, skipping keeps the old approval.\n`
+      )
+    )
+  }
+
+  let approvedCount = 0
+  const rejectedWarnings: Array<{
+    file: string
+    line: number
+    column: number
+    ruleId: string
+    message: string
+    codeSnippet: string
+    codeContext: string[]
+  }> = []
+
+  // Bulk actions apply to every remaining issue they cover without asking again
+  const bulkApproveRules = new Map<string, ApprovalDecision>()
+  const bulkApproveFiles = new Map<string, ApprovalDecision>()
+  const bulkRejectRules = new Set<string>()
+  const pendingBulkApprovals: PendingApproval[] = []
+  let skipRest = false
+
+  const toRejected = (warning: Warning) => ({
+    file: warning.fingerprint.file,
+    line: warning.line,
+    column: warning.column,
+    ruleId: warning.ruleId,
+    message: warning.message,
+    codeSnippet: warning.codeSnippet,
+    codeContext: warning.codeContext
+  })
+
+  // Issues somebody approved or rejected, the rest of those under re-review were skipped
+  const decided = new Set<Warning>()
+
+  const reject = (warning: Warning): void => {
+    decided.add(warning)
+    rejectedWarnings.push(toRejected(warning))
+    const previous = previousApprovals.get(warning)
+    if (previous) {
+      removeApproval(cache.approvedWarnings, previous)
+      cacheChanged = true
+    }
+  }
+
+  // Mostly you staring at the screen, but it's pre-commit time all the same
+  const stopReview = startPhase("review")
+  for (let i = 0; i < newWarnings.length; i++) {
+    const warning = newWarnings[i]
+    const forbidden = resolveRulePolicy(policy, warning.ruleId, warning.filePath, warning.severity) === "forbidden"
+
+    if (skipRest) {
+      continue
+    }
+    if (bulkRejectRules.has(warning.ruleId)) {
+      reject(warning)
+      continue
+    }
+    const previous = previousApprovals.get(warning)
+    const bulkDecision = bulkApproveRules.get(warning.ruleId) ?? bulkApproveFiles.get(warning.fingerprint.file)
+    if (bulkDecision && !forbidden) {
+      pendingBulkApprovals.push({ warning, decision: bulkDecision, replaces: previous })
+      continue
+    }
+
+    const issueType = warning.severity === 2 ? kleur.red().bold("Error") : kleur.yellow().bold("Warning")
+    console.log(`\n[${kleur.cyan().bold(`${i + 1}/${newWarnings.length}`)}] ${issueType}:`)
+    console.log(
+      `  ${kleur.dim("File")}: ${kleur.cyan(warning.fingerprint.file)}:${kleur.cyan().bold(warning.line.toString())}:${kleur.cyan().bold(warning.column.toString())}`
+    )
+    console.log(`  ${kleur.dim("Rule")}: ${kleur.magenta(warning.ruleId)}`)
+    console.log(`  ${kleur.dim("Message")}: ${kleur.white(warning.message)}`)
+    const previousChange = previous && reviewing.get(previous)
+    if (previous && previousChange) {
+      console.log(
+        `  ${kleur.dim("Approved before")}: ${kleur.yellow(`by ${previous.author ?? "someone"}${previous.reason ? ` ("${previous.reason}")` : ""}, the rule changed since (${describeRuleChange(previousChange)})`)}`
+      )
+    }
+
+    if (warning.codeContext && warning.codeContext.length > 0) {
+      const contextStartLine = Math.max(1, warning.line - 3)
+      console.log(`  ${kleur.dim("Code context")}:`)
+      warning.codeContext.forEach((contextLine, idx) => {
+        const lineNum = contextStartLine + idx
+        const isWarningLine = lineNum === warning.line
+        const marker = isWarningLine ? kleur.red().bold(">>>") : kleur.dim("   ")
+        const lineNumColor = isWarningLine ? kleur.red().bold : kleur.dim
+        const codeColor = isWarningLine ? kleur.red : kleur.gray
+        console.log(
+          `  ${marker} ${lineNumColor(lineNum.toString().padStart(4, " "))} ${kleur.dim("|")} ${codeColor(contextLine)}`
+        )
+      })
+    } else if (warning.codeSnippet) {
+      console.log(`  ${kleur.dim("Code")}: ${kleur.gray(warning.codeSnippet)}`)
+    } else {
+      console.log(`  ${kleur.dim("Code")}: ${kleur.dim("(no code available)")}`)
+    }
+
+    if (forbidden) {
+      console.log(
+        `  ${kleur.red().bold("🚫 vibelint.config forbids approving this rule here.")} ${kleur.dim("Fix it or skip it, those are your options.")}`
+      )
+    }
+    const choices = forbidden
+      ? ACTION_CHOICES.filter((choice) => !APPROVE_ACTIONS.includes(choice.value))
+      : ACTION_CHOICES
+
+    if (process.stdin.isPaused()) {
+      process.stdin.resume()
+    }
+
+    if (!process.stdin.isTTY) {
+      console.error("\nERROR: stdin is not a TTY (running in CI? Good luck with that). Cannot prompt for approval.")
+      console.error("This script requires an interactive terminal (because we need your input, obviously).")
+      process.exit(1)
+    }
+
+    let response: { action?: string } | undefined
+
+    try {
+      response = await prompts(
+        {
+          type: "select",
+          name: "action",
+          message: "What's your move, hotshot? (Pick something or this script will die)",
+          choices,
+          stdin: process.stdin,
+          stdout: process.stdout
+        },
+        {
+          onCancel: () => {
+            console.log("\nYou cancelled. Commit aborted because you're indecisive.")
+            process.exit(1)
+          }
+        }
+      )
+    } catch (error) {
+      console.error("\nERROR: Prompt failed (because nothing ever works, right?):", error)
+      console.error(
+        "This likely means stdin is not properly connected (or you're running this in a weird environment)."
+      )
+      console.error("Commit aborted because we can't read your mind.")
+      process.exit(1)
+    }
+
+    if (!response || typeof response !== "object" || !("action" in response)) {
+      console.error("\nERROR: No response received from prompt (you didn't answer, or something broke).")
+      console.error("Response received (probably nothing useful):", JSON.stringify(response))
+      console.error(
+        "This likely means stdin is not properly connected or not interactive (or you're running this in CI, genius)."
+      )
+      console.error("Please ensure your git hook runs in an interactive terminal,")
+      console.error("or run 'npm run lint:check-warnings' manually before committing (like a civilized human).")
+      console.error("\nNew warnings found (that you'll have to deal with eventually):")
+      for (const warning of newWarnings.slice(i)) {
+        console.error(
+          `  - ${warning.fingerprint.file}:${warning.line}:${warning.column} - ${warning.ruleId}: ${warning.message}`
+        )
+      }
+      process.exit(1)
+    }
+
+    const action = response.action
+
+    if (typeof action !== "string" || action.length === 0) {
+      console.error(`\nERROR: Invalid or empty action received (you broke it somehow): ${JSON.stringify(action)}`)
+      console.error("Response object (for debugging, because you'll need it):", JSON.stringify(response))
+      console.error(
+        "This likely means prompts didn't wait for user input (or you're trying to automate this, which won't work)."
+      )
+      console.error("Commit aborted because we don't trust invalid input.")
+      process.exit(1)
+    }
+
+    if (!choices.some((choice) => choice.value === action)) {
+      console.error(`\nERROR: Invalid action value (you picked something that doesn't exist): ${action}`)
+      console.error(`Expected one of: ${choices.map((choice) => choice.value).join(", ")} (it's not that hard, really)`)
+      console.error("Commit aborted because we're not mind readers.")
+      process.exit(1)
+    }
+
+    if (action === "approve" || action === "approve-with-reason") {
+      const reason = action === "approve-with-reason" ? await askApprovalReason() : undefined
+      const expiresAt = await askApprovalExpiry()
+      approveWarning(cache, warning, { reason, expiresAt }, previous)
+      decided.add(warning)
+      approvedCount++
+      await saveCache(cache)
+      console.log(kleur.green("  ✓ Approved (you've officially given up on fixing this one) and saved to cache"))
+    } else if (action === "approve-rule" || action === "approve-file") {
+      const decision: ApprovalDecision = { reason: await askApprovalReason(), expiresAt: await askApprovalExpiry() }
+      if (action === "approve-rule") {
+        bulkApproveRules.set(warning.ruleId, decision)
+      } else {
+        bulkApproveFiles.set(warning.fingerprint.file, decision)
+      }
+      pendingBulkApprovals.push({ warning, decision, replaces: previous })
+      console.log(
+        kleur.green(
+          `  ✓✓ Every remaining issue ${action === "approve-rule" ? `for ${warning.ruleId}` : `in ${warning.fingerprint.file}`} will be approved (you'll confirm before anything is written)`
+        )
+      )
+    } else if (action === "reject") {
+      reject(warning)
+      console.log(kleur.red("  ✗ Rejected (good choice, now fix it. We'll show all your failures at the end.)"))
+    } else if (action === "reject-rule") {
+      bulkRejectRules.add(warning.ruleId)
+      reject(warning)
+      console.log(kleur.red(`  ✗✗ Rejected every ${warning.ruleId} issue (bold. We'll show them all at the end.)`))
+    } else if (action === "skip") {
+      console.log(kleur.yellow("  → Skipped (procrastination level: expert)"))
+    } else if (action === "skip-rest") {
+      skipRest = true
+      console.log(kleur.yellow(`  →→ Skipped this and the remaining ${newWarnings.length - i - 1} issue(s)`))
+    } else {
+      console.log(kleur.red("\nUnknown action (how did you even get here?). Commit aborted."))
+      process.exit(1)
+    }
+  }
+
+  if (pendingBulkApprovals.length > 0) {
+    const bulkApproved = await confirmBulkApprovals(cache, pendingBulkApprovals)
+    if (bulkApproved > 0) {
+      pendingBulkApprovals.forEach(({ warning }) => decided.add(warning))
+    }
+    approvedCount += bulkApproved
+  }
+  stopReview()
+
+  if (rejectedWarnings.length > 0) {
+    console.log(`\n\n${kleur.red().bold("=".repeat(80))}`)
+    console.log(
+      kleur
+        .red()
+        .bold(
+          `❌ COMMIT ABORTED: ${kleur.yellow().bold(rejectedWarnings.length.toString())} ${kleur.yellow("issue(s)")} (warnings and errors) were rejected (because you said so)`
+        )
+    )
+    console.log(kleur.red().bold("=".repeat(80)) + "\n")
+
+    console.log(
+      kleur
+        .yellow()
+        .bold(
+          "Here are the ESLint issues (warnings and errors) that need to be fixed (you know, the ones you rejected):\n"
+        )
+    )
+
+    // Group warnings by ruleId
+    const warningsByRule = new Map<string, typeof rejectedWarnings>()
+    for (const w of rejectedWarnings) {
+      const ruleId = w.ruleId || "unknown"
+      if (!warningsByRule.has(ruleId)) {
+        warningsByRule.set(ruleId, [])
+      }
+      const warningsArray = warningsByRule.get(ruleId)
+      if (warningsArray) {
+        warningsArray.push(w)
+      }
+    }
+
+    // Display grouped warnings
+    let displayIndex = 1
+    for (const [ruleId, warnings] of warningsByRule.entries()) {
+      const instruction = getRuleInstruction(ruleId)
+
+      console.log(`${kleur.cyan().bold(`${displayIndex}.`)} ${kleur.magenta().bold(`Rule: ${ruleId}`)}`)
+      console.log(`   ${kleur.dim("AI Instruction")}: ${kleur.yellow(instruction)}`)
+      console.log(`   ${kleur.dim("Locations")}:`)
+      warnings.forEach((w, idx) => {
+        console.log(
+          `      ${idx + 1}. ${kleur.cyan(w.file)}:${kleur.cyan().bold(w.line.toString())}:${kleur.cyan().bold(w.column.toString())}`
+        )
+      })
+      console.log("")
+
+      displayIndex++
+    }
+
+    console.log(`${kleur.yellow().bold("=".repeat(80))}`)
+    console.log(kleur.yellow().bold("AI Fix Request"))
+    console.log(kleur.yellow().bold("=".repeat(80)) + "\n")
+
+    // Generate structured prompt for AI
+    const promptSections: string[] = []
+
+    // Header with clear task description
+    promptSections.push(
+      kleur.yellow().bold("TASK: Fix all ESLint issues listed below.\n"),
+      kleur.yellow().bold("REQUIREMENTS:"),
+      kleur.yellow("  ✓ Fix ALL issues completely and correctly"),
+      kleur.yellow("  ✓ NO shortcuts, NO hacks, NO workarounds"),
+      kleur.yellow("  ✓ NO eslint-disable comments unless absolutely necessary"),
+      kleur.yellow("  ✓ Understand the root cause before fixing"),
+      kleur.yellow("  ✓ Verify fixes don't break existing functionality"),
+      kleur.yellow("  ✓ Consider edge cases and error handling"),
+      kleur.yellow("  ✓ Follow TypeScript and JavaScript best practices\n")
+    )
+
+    // Generate structured issue list
+    let aiIndex = 1
+    const totalIssues = warningsByRule.size
+    for (const [ruleId, warnings] of warningsByRule.entries()) {
+      const instruction = getRuleInstruction(ruleId)
+      const locationsList = warnings.map((w, idx) => `      ${idx + 1}. ${w.file}:${w.line}:${w.column}`).join("\n")
+
+      promptSections.push(
+        kleur.yellow().bold(`[${aiIndex}/${totalIssues}] ${ruleId}`),
+        kleur.yellow(`  Rule ID: ${ruleId}`),
+        kleur.yellow(`  Fix Instruction: ${instruction}`),
+        kleur.yellow(`  Total Occurrences: ${warnings.length}`),
+        kleur.yellow(`  File Locations:`),
+        kleur.yellow(locationsList),
+        ""
+      )
+      aiIndex++
+    }
+
+    // Footer with expectations
+    promptSections.push(
+      kleur.yellow().bold("EXPECTED OUTPUT:"),
+      kleur.yellow("  ✓ All issues fixed with proper, production-ready solutions"),
+      kleur.yellow("  ✓ Code follows TypeScript/JavaScript best practices"),
+      kleur.yellow("  ✓ No new ESLint issues introduced"),
+      kleur.yellow("  ✓ All changes are minimal, focused, and well-reasoned"),
+      kleur.yellow("  ✓ Code is maintainable and follows project conventions\n")
+    )
+
+    console.log(promptSections.join("\n"))
+    console.log(`\n${kleur.red().bold("=".repeat(80))}\n`)
+
+    if (cacheChanged) {
+      await saveCache(cache)
+    }
+    process.exit(1)
+  }
+
+  const undecided = new Map(reviewedCounts)
+  for (const warning of decided) {
+    const previous = previousApprovals.get(warning)
+    if (previous) {
+      undecided.set(previous, (undecided.get(previous) ?? 0) - 1)
+    }
+  }
+  const fixedCount = pruneFixedApprovals(
+    undecided,
+    [...previousApprovals.keys()].filter((warning) => !decided.has(warning))
+  )
+
+  await timed("save", () => saveCache(cache))
+
+  if (fixedCount > 0) {
+    console.log(`\n${"=".repeat(80)}`)
+    console.log(`🎉 SUCCESS! ${fixedCount} warning(s) have been fixed! (Finally, some progress!)`)
+    console.log(`${"=".repeat(80)}`)
+    console.log(
+      `\nGreat work! ${fixedCount} previously approved warning(s) are no longer present in the codebase (you actually fixed something, impressive).`
+    )
+    console.log("They've been automatically removed from the cache (because we're helpful like that).\n")
+  }
+
+  if (newWarnings.length > 0) {
+    console.log(`\n✓ Cache updated (because we're organized like that):`)
+    console.log(`  - ${approvedCount} new issue(s) approved (you gave up on fixing them)`)
+    console.log(`  - ${fixedCount} issue(s) fixed and removed from cache (actual progress!)`)
+    console.log(
+      `  - Total approved issues in cache: ${countApprovals(cache.approvedWarnings)} (the graveyard of issues you've given up on)`
+    )
+  } else {
+    console.log(`\n✓ All issues are already approved (nothing new to deal with, how boring).`)
+    if (fixedCount > 0) {
+      console.log(`  - ${fixedCount} issue(s) fixed and removed from cache (at least you fixed something)`)
+    }
+  }
+}